@@ -0,0 +1,114 @@
+import { GiveawayArchiveQuery, GiveawayData, GiveawayStorage } from "./Constants";
+import { GiveawaysManager } from "./Manager";
+import { JSONStorage } from "./Storage";
+
+/**
+ * Represents the archive of the giveaways which ended longer ago than `endedGiveawaysLifetime`.
+ * Archived giveaways leave the manager, but their winners, reroll history and timestamps are kept in their own storage
+ */
+export class GiveawayArchive {
+    /**
+     * The main giveaways manager
+     * @type {GiveawaysManager}
+     */
+    manager: GiveawaysManager;
+
+    /**
+     * The timestamp of the last prune, `null` if the archive has not been pruned yet
+     * @type {?Number}
+     */
+    prunedAt: number | null;
+
+    /**
+     * The storage where the archived giveaways are persisted
+     * @type {GiveawayStorage}
+     */
+    storage: GiveawayStorage;
+
+    /**
+     * Represents the archive of the ended giveaways
+     * @param manager The giveaways manager
+     */
+    constructor(manager: GiveawaysManager) {
+        // The archive file is next to the giveaways file unless set in the options
+        const storage = manager.options.archive.storage ?? (typeof manager.options.storage === "string" ? manager.options.storage.replace(/(\.json)?$/, ".archive.json") : null);
+
+        if (manager.options.archive.enabled && !storage) throw new Error("`options.archive.storage` is required when the giveaways are not stored in a JSON file");
+
+        this.manager = manager;
+        this.prunedAt = null;
+        this.storage = typeof storage === "string" ? new JSONStorage(storage) : storage;
+    }
+
+    /**
+     * How long archived giveaways are kept after they have been archived. `null` keeps them forever
+     * @type {?Number}
+     */
+    get lifetime(): number | null {
+        return this.manager.options.archive.lifetime;
+    }
+
+    /**
+     * Archives a giveaway data
+     * @param giveaway The giveaway data
+     * @returns {Promise<GiveawayData>}
+     */
+    async add(giveaway: GiveawayData): Promise<GiveawayData> {
+        const archivedGiveaway = { ...giveaway, archivedAt: Date.now() };
+
+        await this.storage.saveGiveaway(archivedGiveaway.messageID, archivedGiveaway);
+
+        return archivedGiveaway;
+    }
+
+    /**
+     * Finds the archived giveaways matching a query, from the most recently ended
+     * @param query The query
+     * @returns {Promise<Array<GiveawayData>>}
+     */
+    async find(query: GiveawayArchiveQuery = {}): Promise<GiveawayData[]> {
+        const giveaways = (await this.storage.getAllGiveaways())
+            .map((giveaway) => this.manager.migrateGiveaway(giveaway))
+            .filter((giveaway) =>
+                (!query.guildID || giveaway.guildID === query.guildID) &&
+                (!query.channelID || giveaway.channelID === query.channelID) &&
+                (!query.winnerID || !!giveaway.winnerIDs?.includes(query.winnerID)) &&
+                (!Number.isFinite(query.since) || giveaway.endAt >= query.since) &&
+                (!Number.isFinite(query.until) || giveaway.endAt <= query.until)
+            )
+            .sort((a, b) => b.endAt - a.endAt);
+
+        return Number.isInteger(query.limit) ? giveaways.slice(0, query.limit) : giveaways;
+    }
+
+    /**
+     * Gets an archived giveaway
+     * @param messageID The ID of the giveaway message
+     * @returns {Promise<?GiveawayData>}
+     */
+    async get(messageID: string): Promise<GiveawayData | null> {
+        const giveaway = (await this.storage.getAllGiveaways()).find((g) => g.messageID === messageID);
+
+        return giveaway ? this.manager.migrateGiveaway(giveaway) : null;
+    }
+
+    /**
+     * Deletes the archived giveaways which outlived the archive lifetime
+     * @returns {Promise<Number>} The number of deleted giveaways
+     */
+    async prune(): Promise<number> {
+        if (!Number.isFinite(this.lifetime)) return 0;
+
+        this.prunedAt = Date.now();
+
+        const expiredGiveaways = (await this.storage.getAllGiveaways())
+            .filter((giveaway) => (giveaway.archivedAt ?? giveaway.endAt) + this.lifetime <= Date.now());
+
+        for (const giveaway of expiredGiveaways) {
+            await this.storage.deleteGiveaway(giveaway.messageID);
+            this.manager.winnerHistory.remove(giveaway.messageID);
+        }
+
+        return expiredGiveaways.length;
+    }
+}
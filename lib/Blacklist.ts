@@ -0,0 +1,137 @@
+import { BlacklistEntry, BlacklistEntryOptions } from "./Constants";
+import { Member } from "eris";
+import { GiveawaysManager } from "./Manager";
+
+/**
+ * Represents the blacklist of the users and roles which cannot enter nor win any giveaway of a guild.
+ * It is persisted through the storage of the giveaways, or kept in memory if the storage does not support it
+ */
+export class GiveawayBlacklist {
+    /**
+     * The blacklist entries, including the expired ones which have not been pruned yet
+     * @type {Array<BlacklistEntry>}
+     * @ignore
+     */
+    private entries: BlacklistEntry[];
+
+    /**
+     * The main giveaways manager
+     * @type {GiveawaysManager}
+     */
+    manager: GiveawaysManager;
+
+    /**
+     * Represents the blacklist of the giveaways
+     * @param manager The giveaways manager
+     */
+    constructor(manager: GiveawaysManager) {
+        this.entries = [];
+        this.manager = manager;
+    }
+
+    /**
+     * Whether the blacklist can be persisted by the storage of the giveaways
+     * @type {Boolean}
+     */
+    get persisted(): boolean {
+        return typeof this.manager.storage.getBlacklist === "function" && typeof this.manager.storage.editBlacklist === "function";
+    }
+
+    /**
+     * Whether a blacklist entry has expired
+     * @param entry The blacklist entry
+     * @returns {Boolean}
+     * @ignore
+     */
+    private _isExpired(entry: BlacklistEntry): boolean {
+        return Number.isFinite(entry.expiresAt) && entry.expiresAt <= Date.now();
+    }
+
+    /**
+     * Drops the expired entries and persists the blacklist
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _save(): Promise<void> {
+        this.entries = this.entries.filter((entry) => !this._isExpired(entry));
+
+        if (this.persisted) await this.manager.storage.editBlacklist(this.entries);
+    }
+
+    /**
+     * Blacklists a user or a role in a guild. An existing entry of the same user or role is replaced
+     * @param options The blacklist entry options
+     * @returns {Promise<BlacklistEntry>}
+     */
+    async add(options: BlacklistEntryOptions): Promise<BlacklistEntry> {
+        if (!["user", "role"].includes(options?.type)) throw new Error("`options.type` is neither \"user\" nor \"role\"");
+
+        const entry: BlacklistEntry = {
+            guildID: options.guildID,
+            type: options.type,
+            id: options.id,
+            reason: options.reason,
+            addedAt: Date.now(),
+            expiresAt: Number.isFinite(options.duration) ? Date.now() + options.duration : undefined
+        };
+
+        this.entries = this.entries.filter((e) => e.guildID !== entry.guildID || e.id !== entry.id).concat(entry);
+        await this._save();
+
+        this.manager.emit("blacklistEntryAdded", entry);
+        return entry;
+    }
+
+    /**
+     * Finds the entry blacklisting a member, by their ID or one of their roles
+     * @param member The member
+     * @returns {?BlacklistEntry}
+     */
+    get(member: Member): BlacklistEntry | null {
+        return this.entries.find((entry) =>
+            entry.guildID === member.guild.id &&
+            !this._isExpired(entry) &&
+            (entry.type === "user" ? entry.id === member.id : member.roles.includes(entry.id))
+        ) ?? null;
+    }
+
+    /**
+     * Lists the active blacklist entries of a guild
+     * @param guildID The ID of the guild
+     * @returns {Array<BlacklistEntry>}
+     */
+    list(guildID: string): BlacklistEntry[] {
+        return this.entries.filter((entry) => entry.guildID === guildID && !this._isExpired(entry));
+    }
+
+    /**
+     * Loads the blacklist from the storage
+     * @returns {Promise<void>}
+     */
+    async load(): Promise<void> {
+        if (!this.persisted) {
+            process.emitWarning("The storage does not support the blacklist, which is kept in memory only", "GiveawayBlacklistWarning");
+            return;
+        }
+
+        this.entries = await this.manager.storage.getBlacklist();
+    }
+
+    /**
+     * Removes a user or a role from the blacklist of a guild
+     * @param guildID The ID of the guild
+     * @param id The ID of the user or the role
+     * @returns {Promise<?BlacklistEntry>} The removed entry
+     */
+    async remove(guildID: string, id: string): Promise<BlacklistEntry | null> {
+        const entry = this.entries.find((e) => e.guildID === guildID && e.id === id);
+
+        if (!entry) return null;
+
+        this.entries = this.entries.filter((e) => e !== entry);
+        await this._save();
+
+        this.manager.emit("blacklistEntryRemoved", entry);
+        return entry;
+    }
+}
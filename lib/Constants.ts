@@ -1,24 +1,142 @@
 "use strict";
 
-import { AdvancedMessageContent, Constants, Member } from "eris";
+import { AdvancedMessageContent, Constants, Member, User } from "eris";
 import { Giveaway } from "./Giveaway";
+import { Util } from "./Util";
+import merge from "deepmerge";
 
-export interface BonusEntry {
-    bonus(member?: Member, giveaway?: Giveaway): number | Promise<number>;
+export interface BlacklistEntry {
+    guildID: string;
+    type: "user" | "role";
+    id: string;
+    reason?: string;
+    addedAt: number;
+    expiresAt?: number;
+}
+
+export interface ScheduledGiveaway {
+    id: string;
+    guildID: string;
+    channelID: string;
+    startAt: number;
+    scheduledAt: number;
+    options: GiveawayStartOptions;
+}
+
+export interface ScheduledGiveawayEditOptions {
+    newStartAt?: number;
+    newOptions?: Partial<GiveawayStartOptions>;
+}
+
+export interface BlacklistEntryOptions {
+    guildID: string;
+    type: "user" | "role";
+    id: string;
+    reason?: string;
+    duration?: number;
+}
+
+export interface BonusEntry extends RuleReference {
     cumulative?: boolean;
 }
 
+export interface BonusRuleMatch {
+    rule: string;
+    entries: number;
+    cumulative: boolean;
+}
+
+export type BonusRule = (member: Member, giveaway: Giveaway, params?: any) => number | Promise<number>;
+
+export interface EntryRequirements {
+    roles?: string[];
+    rolesMode?: "any" | "all";
+    forbiddenRoles?: string[];
+    minAccountAge?: number;
+    minMemberAge?: number;
+    rule?: RuleReference;
+}
+
+export interface ClaimOptions {
+    enabled?: boolean;
+    duration?: number;
+    method?: "message" | "dm";
+}
+
+export interface DrawVerification {
+    commitment: string;
+    seed?: string;
+    revealedAt?: number;
+    winnerCount?: number;
+    entries?: [string, number][];
+    winnerIDs?: string[];
+    rerolls?: DrawVerificationReroll[];
+}
+
+export interface DrawVerificationReroll {
+    drawnAt: number;
+    winnerCount: number;
+    entries: [string, number][];
+    winnerIDs: string[];
+}
+
+export interface DrawVerificationResult {
+    valid: boolean;
+    winnerIDs: string[];
+}
+
+export interface EntryBreakdown {
+    matchedRules: BonusRuleMatch[];
+    cumulativeEntries: number;
+    nonCumulativeEntries: number;
+    bonusEntries: number;
+    tickets: number;
+}
+
+export type ExemptRule = (member: Member, giveaway: Giveaway, params?: any) => boolean | Promise<boolean>;
+
+export type GiveawayEntryMode = "reaction" | "button" | "text";
+
+export interface TextDropOptions {
+    keyword?: string;
+    question?: string;
+    answers?: string[];
+    answerHashes?: string[];
+    caseSensitive?: boolean;
+}
+
+export interface TextDropData {
+    keyword?: string;
+    question?: string;
+    answerHashes?: string[];
+    caseSensitive?: boolean;
+}
+
 export interface InteractionOptions {
     enabled?: boolean;
     ephemeral?: boolean
 }
 
+export interface JSONStorageOptions {
+    backups?: number;
+    blacklistPath?: string;
+    schedulePath?: string;
+}
+
+export interface GiveawayWin {
+    userID: string;
+    messageID: string;
+    wonAt: number;
+}
+
 export interface LastChanceOptions {
     enabled?: boolean;
     embedColor?: number;
     content?: string;
     threshold?: number;
 }
+export type MaxParticipantsMode = "end" | "close" | "waitlist";
+
 export interface PauseOptions {
     isPaused?: boolean;
     content?: string;
@@ -28,14 +146,45 @@ export interface PauseOptions {
     infiniteDurationText?: string;
 }
 
+export interface ShardingOptions {
+    shardIDs?: number[];
+    shardCount?: number;
+}
+
+export interface WinnerCooldownOptions {
+    duration: number;
+    maxWins?: number;
+}
+
+export interface WinnerCandidate {
+    user: User;
+    tickets: number;
+}
+
+export interface WinnerSelector {
+    select(candidates: WinnerCandidate[], winnerCount: number, giveaway: Giveaway): string[] | Promise<string[]>;
+}
+
+export type WinnerSelectorCallback = (candidates: WinnerCandidate[], winnerCount: number, giveaway: Giveaway) => string[] | Promise<string[]>;
+
+export interface RuleReference {
+    rule: string;
+    params?: any;
+}
+
+export type RequirementRule = (member: Member, giveaway: Giveaway, params?: any) => boolean | string | Promise<boolean | string>;
+
 export interface GiveawayStartOptions {
-    prize: string;
-    winnerCount: number;
+    prize?: string;
+    winnerCount?: number;
+    prizes?: GiveawayPrize[];
+    backupWinnerCount?: number;
+    showBackupWinners?: boolean;
     duration?: number; // can be null for drops
     hostedBy?: string;
     botsCanWin?: boolean;
     exemptPermissions?: [keyof Constants["Permissions"]];
-    exemptMembers?: (member: Member) => boolean | Promise<boolean>;
+    exemptMembers?: RuleReference;
     bonusEntries?: BonusEntry[];
     embedColor?: number;
     embedColorEnd?: number;
@@ -47,6 +196,15 @@ export interface GiveawayStartOptions {
     lastChance?: LastChanceOptions;
     pauseOptions?: PauseOptions;
     isDrop?: boolean;
+    entryMode?: GiveawayEntryMode;
+    textDrop?: TextDropOptions;
+    requirements?: EntryRequirements;
+    maxParticipants?: number;
+    maxParticipantsMode?: MaxParticipantsMode;
+    winnerCooldown?: WinnerCooldownOptions;
+    verifiable?: boolean;
+    winnerSelector?: string;
+    claim?: ClaimOptions;
 }
 
 export interface GiveawaysMessages {
@@ -62,12 +220,117 @@ export interface GiveawaysMessages {
     winners?: string;
     endedAt?: string;
     hostedBy?: string;
+    enterButton?: string;
+    entered?: string;
+    left?: string;
+    entryClosed?: string;
+    entryRejected?: string;
+    missingRoles?: string;
+    forbiddenRole?: string;
+    accountTooNew?: string;
+    memberTooNew?: string;
+    requirementNotMet?: string;
+    participantCount?: string;
+    entriesFull?: string;
+    waitlisted?: string;
+    blacklisted?: string;
+    drawCommitment?: string;
+    drawSeed?: string;
+    claimButton?: string;
+    claimDeadline?: string;
+    claimDM?: string;
+    prizeClaimed?: string;
+    claimExpired?: string;
+    notAWinner?: string;
+    prizeTier?: string;
+    tierWinners?: string;
+    backupWinners?: string;
+}
+
+export interface GiveawayArchiveOptions {
+    enabled?: boolean;
+    storage?: string | GiveawayStorage;
+    lifetime?: number;
+}
+
+export interface GiveawayArchiveQuery {
+    guildID?: string;
+    channelID?: string;
+    winnerID?: string;
+    since?: number;
+    until?: number;
+    limit?: number;
+}
+
+export interface GiveawayExport {
+    guildID: string;
+    exportedAt: number;
+    schemaVersion: number;
+    userSchemaVersion?: number;
+    giveaways: GiveawayExportData[];
+}
+
+export interface GiveawayExportData extends GiveawayData {
+    entryCount?: number;
+}
+
+export interface GiveawayImportOptions {
+    channelIDs?: Record<string, string>;
+    repost?: boolean;
+}
+
+export interface GiveawayClaim {
+    userID: string;
+    deadline: number;
+    claimedAt?: number;
+    expiredAt?: number;
+}
+
+export interface GiveawayPrize {
+    name: string;
+    count: number;
+}
+
+export interface GiveawayTier extends GiveawayPrize {
+    winnerIDs: string[];
+}
+
+export interface GiveawayLock {
+    acquire(key: string, duration: number): Promise<boolean>;
+    release(key: string): Promise<void>;
+}
+
+export interface GiveawayMigration {
+    version: number;
+    migrate(giveaway: GiveawayData): GiveawayData;
+}
+
+export interface GiveawayStorage {
+    deleteGiveaway(messageID: string): Promise<void>;
+    editBlacklist?(entries: BlacklistEntry[]): Promise<void>;
+    editGiveaway(messageID: string, giveawayData: GiveawayData): Promise<void>;
+    editGiveaways?(giveaways: GiveawayData[]): Promise<void>;
+    editScheduledGiveaways?(giveaways: ScheduledGiveaway[]): Promise<void>;
+    getAllGiveaways(): Promise<GiveawayData[]>;
+    getBlacklist?(): Promise<BlacklistEntry[]>;
+    getGiveaway?(messageID: string): Promise<GiveawayData | null>;
+    getScheduledGiveaways?(): Promise<ScheduledGiveaway[]>;
+    saveGiveaway(messageID: string, giveawayData: GiveawayData): Promise<void>;
 }
 
 export interface GiveawaysManagerOptions {
-    storage?: string;
+    storage?: string | GiveawayStorage;
     forceUpdateEvery?: number;
+    flushEvery?: number;
+    flushOnExit?: boolean;
+    legacyPlaceholders?: boolean;
     endedGiveawaysLifetime?: number;
+    archive?: GiveawayArchiveOptions;
+    sharding?: ShardingOptions;
+    lock?: GiveawayLock;
+    lockDuration?: number;
+    scheduleStartAttempts?: number;
+    winnerCooldown?: WinnerCooldownOptions;
     default?: {
         botsCanWin?: boolean;
         exemptPermissions?: [keyof Constants["Permissions"]] | any;
@@ -88,12 +351,21 @@ export interface GiveawayEditOptions {
     newThumbnail?: string;
     newImage?: string;
     newBonusEntries?: BonusEntry[];
-    newExemptMembers?: (member: Member) => boolean | Promise<boolean>;
+    newExemptMembers?: RuleReference;
     newExtraData?: any;
     newLastChance?: LastChanceOptions;
+    newRequirements?: EntryRequirements;
+    newMaxParticipants?: number;
+    newMaxParticipantsMode?: MaxParticipantsMode;
+    newWinnerCooldown?: WinnerCooldownOptions;
+    newWinnerSelector?: string;
 }
 export interface GiveawayRerollOptions {
     winnerCount?: number;
+    replace?: string[];
+    tier?: number;
+    triggeredBy?: string;
+    reason?: string;
     messages?: {
         congrat?: string | AdvancedMessageContent;
         error?: string | AdvancedMessageContent;
@@ -101,6 +373,17 @@ export interface GiveawayRerollOptions {
     interactionOptions?: InteractionOptions;
 }
 
+export interface GiveawayDraw {
+    drawnAt: number;
+    kind: "end" | "reroll";
+    winnerIDs: string[];
+    backupWinnerIDs?: string[];
+    replacedWinnerIDs?: string[];
+    triggeredBy?: string;
+    participantCount: number;
+    reason?: string;
+}
+
 export interface GiveawayData {
     startAt: number;
     botsCanWin: boolean;
@@ -108,15 +391,20 @@ export interface GiveawayData {
     winnerCount: number;
     messages: GiveawaysMessages;
     prize: string;
+    prizes?: GiveawayPrize[];
     channelID: string;
     guildID: string;
     ended?: boolean;
     winnerIDs?: string[];
+    winnerTiers?: Record<string, number>;
+    backupWinnerCount?: number;
+    backupWinnerIDs?: string[];
+    showBackupWinners?: boolean;
     messageID?: string;
     reaction?: string;
     exemptPermissions?: [keyof Constants["Permissions"]];
-    exemptMembers?: string;
-    bonusEntries?: string;
+    exemptMembers?: RuleReference;
+    bonusEntries?: BonusEntry[];
     embedColor?: number;
     embedColorEnd?: number;
     thumbnail?: string;
@@ -126,8 +414,35 @@ export interface GiveawayData {
     lastChance?: LastChanceOptions;
     pauseOptions?: PauseOptions;
     isDrop?: boolean;
+    entryMode?: GiveawayEntryMode;
+    textDrop?: TextDropData;
+    requirements?: EntryRequirements;
+    participants?: string[];
+    maxParticipants?: number;
+    maxParticipantsMode?: MaxParticipantsMode;
+    waitlist?: string[];
+    winnerCooldown?: WinnerCooldownOptions;
+    verification?: DrawVerification;
+    winnerSelector?: string;
+    claim?: ClaimOptions;
+    claims?: GiveawayClaim[];
+    history?: GiveawayDraw[];
+    archivedAt?: number;
+    schemaVersion?: number;
+    userSchemaVersion?: number;
 }
 
+export const ClaimOptions: ClaimOptions = {
+    enabled: false,
+    duration: 86_400_000,
+    method: "message"
+};
+
+export const ComponentIDs = {
+    CLAIM_BUTTON: "giveaway_claim",
+    ENTRY_BUTTON: "giveaway_entry"
+};
+
 export const Endpoints = {
     MESSAGE_URL: (guildID: string, channelID: string, messageID: string) =>
         `https://discord.com/channels/${guildID}/${channelID}/${messageID}`,
@@ -138,20 +453,129 @@ export const GiveawayMessages: GiveawaysMessages = {
     giveawayEnded: "🎉🎉 **GIVEAWAY ENDED** 🎉🎉",
     inviteToParticipate: "React with 🎉 to participate!",
     drawing: "Drawing: **{duration}**",
-    winMessage: "Congratulations, {winners}! You won **{this.prize}**! \n {this.messageURL}",
+    winMessage: "Congratulations, {winners}! You won **{prize}**! \n {messageURL}",
     dropMessage: "Be the first to react 🎉 !",
     embedFooter: "Powered by givies-framework",
     noWinner: "Giveaway cancelled, no valid participations.",
     winners: "Winner(s):",
     endedAt: "Ended at",
-    hostedBy: "Hosted by: {this.hostedBy}",
+    hostedBy: "Hosted by: {hostedBy}",
+    enterButton: "Enter",
+    entered: "🎉 You have entered the giveaway for **{prize}**!",
+    left: "You have left the giveaway for **{prize}**.",
+    entryClosed: "The giveaway for **{prize}** has ended.",
+    entryRejected: "❌ You cannot enter the giveaway for **{prize}**: {reason}",
+    missingRoles: "you do not have the required roles.",
+    forbiddenRole: "one of your roles is not allowed to enter.",
+    accountTooNew: "your account is too new.",
+    memberTooNew: "you joined the server too recently.",
+    requirementNotMet: "you do not meet the requirements.",
+    participantCount: "Entries: **{participantCount}/{maxParticipants}**",
+    entriesFull: "the giveaway is full.",
+    waitlisted: "The giveaway for **{prize}** is full, you have been added to the waitlist.",
+    blacklisted: "you are blacklisted from the giveaways of this server.",
+    drawCommitment: "Commitment: {commitment}",
+    drawSeed: "Seed: {seed}",
+    claimButton: "Claim prize",
+    claimDeadline: "Winners must claim their prize {claimDeadline:relative}, or it is rerolled.",
+    claimDM: "🎉 You won **{prize}**! Claim it {claimDeadline:relative}, or it goes to someone else.\n{messageURL}",
+    prizeClaimed: "✅ You have claimed **{prize}**!",
+    claimExpired: "The time to claim **{prize}** has run out.",
+    notAWinner: "You have not won **{prize}**.",
+    prizeTier: "**{tier.name}** × {tier.count}",
+    tierWinners: "**{tier.name}**: {winners}",
+    backupWinners: "Backup winner(s): {winners}"
+};
+
+export const ButtonGiveawayMessages: GiveawaysMessages = {
+    inviteToParticipate: "Click the button below to participate!",
+    dropMessage: "Be the first to click the button!"
+};
+
+export const KeywordGiveawayMessages: GiveawaysMessages = {
+    inviteToParticipate: "Send the keyword in this channel to participate!",
+    dropMessage: "Be one of the first {winnerCount} to send `{keyword}` in this channel!"
 };
 
+export const QuestionGiveawayMessages: GiveawaysMessages = {
+    inviteToParticipate: "Answer the question in this channel to participate!",
+    dropMessage: "Be one of the first {winnerCount} to answer in this channel: **{question}**"
+};
+
+/**
+ * The built-in migrations of the giveaway data. Each one upgrades a record to its `version`
+ */
+export const GiveawayMigrations: GiveawayMigration[] = [
+    {
+        // Records saved before versioning may miss messages added since, such as `dropMessage`
+        version: 1,
+        migrate: (giveaway) => ({
+            ...giveaway,
+            messages: merge(GiveawayMessages, giveaway.messages ?? {}),
+            ended: !!giveaway.ended,
+            winnerIDs: giveaway.winnerIDs?.length ? giveaway.winnerIDs : undefined,
+            isDrop: giveaway.isDrop || undefined
+        })
+    },
+    {
+        // Bonus entries and exempt members used to be serialized functions, which cannot be revived safely. Each bonus entry now references
+        // the `legacyBonusEntry` rule and the exempt members the `legacyExemptMembers` rule, with the function source as parameter.
+        // The sources are split without being evaluated, and the manager refuses to start until those rules are registered or migrated
+        version: 2,
+        migrate: (giveaway) => ({
+            ...giveaway,
+            bonusEntries: typeof giveaway.bonusEntries === "string"
+                ? (Util.splitLiteral(giveaway.bonusEntries) ?? [giveaway.bonusEntries]).map((entry): BonusEntry => {
+                    const properties = Util.splitLiteral(entry) ?? [];
+                    const bonus = properties.find((property) => /^(async\s+)?["']?bonus["']?\s*[:(]/.test(property));
+
+                    return {
+                        rule: "legacyBonusEntry",
+                        params: { source: bonus?.replace(/^["']?bonus["']?\s*:\s*/, "") ?? entry },
+                        cumulative: properties.some((property) => /^["']?cumulative["']?\s*:\s*true$/.test(property)) || undefined
+                    };
+                })
+                : giveaway.bonusEntries,
+            exemptMembers: typeof giveaway.exemptMembers === "string"
+                ? { rule: "legacyExemptMembers", params: { source: giveaway.exemptMembers } }
+                : giveaway.exemptMembers
+        })
+    },
+    {
+        // Messages used to be evaluated, so `{this.prize}` is rewritten to the placeholder `{prize}`
+        version: 3,
+        migrate: (giveaway) => {
+            // The variables of the template language when this migration was written, so it keeps rewriting the same placeholders
+            const legacyVariables = ["prize", "winners", "hostedBy", "messageURL", "winnerCount", "endAt", "extraData"];
+            const legacyRegex = new RegExp(`\\{\\s*this\\.(?=(?:${legacyVariables.join("|")})\\b)`, "g");
+
+            const rewrite = (value: any): any => {
+                if (typeof value === "string") return value.replace(legacyRegex, "{");
+                if (Array.isArray(value)) return value.map(rewrite);
+
+                if (value && typeof value === "object") {
+                    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, rewrite(v)]));
+                }
+
+                return value;
+            };
+
+            return { ...giveaway, messages: rewrite(giveaway.messages) };
+        }
+    }
+];
+
 export const InteractionOptions: InteractionOptions = {
     enabled: false,
     ephemeral: false
 };
 
+export const JSONStorageOptions: JSONStorageOptions = {
+    backups: 3,
+    blacklistPath: null,
+    schedulePath: null
+};
+
 export const LastChanceOptions: LastChanceOptions = {
     enabled: true,
     content: "⚠️ **LAST CHANCE TO ENTER** ⚠️",
@@ -171,7 +595,23 @@ export const PauseOptions: PauseOptions = {
 export const GiveawayManagerOptions: GiveawaysManagerOptions = {
     storage: "./giveaways.json",
     forceUpdateEvery: null,
+    flushEvery: 5_000,
+    flushOnExit: true,
+    legacyPlaceholders: true,
     endedGiveawaysLifetime: null,
+    archive: {
+        enabled: false,
+        storage: null,
+        lifetime: null
+    },
+    sharding: {
+        shardIDs: null,
+        shardCount: null
+    },
+    lock: null,
+    lockDuration: 60_000,
+    scheduleStartAttempts: 5,
+    winnerCooldown: null,
     default: {
         botsCanWin: false,
         exemptPermissions: [],
@@ -191,7 +631,7 @@ export const GiveawayManagerOptions: GiveawaysManagerOptions = {
 export const GiveawayRerollOptions: GiveawayRerollOptions = {
     winnerCount: 1,
     messages: {
-        congrat: "🎉 **New winner(s):** {winners}! Congratulations, you won **{this.prize}**! \n {this.messageURL}",
+        congrat: "🎉 **New winner(s):** {winners}! Congratulations, you won **{prize}**! \n {messageURL}",
         error: "No valid participations, no winners can be rerolled!",
     },
     interactionOptions: {
@@ -212,6 +652,11 @@ export const GiveawayData: GiveawayData = {
     ended: false
 };
 
+export const GiveawayImportOptions: GiveawayImportOptions = {
+    channelIDs: {},
+    repost: true
+};
+
 export const GiveawayStartOptions: GiveawayStartOptions = {
     prize: "",
     winnerCount: 0
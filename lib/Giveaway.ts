@@ -9,32 +9,59 @@ import {
     TextChannel,
     User,
 } from "eris";
+import { createHash } from "crypto";
 import { EventEmitter } from "events";
 import {
+    ClaimOptions,
+    DrawVerification,
+    DrawVerificationResult,
     Endpoints,
+    EntryBreakdown,
+    EntryRequirements,
+    GiveawayClaim,
     GiveawayData,
+    GiveawayDraw,
+    GiveawayPrize,
+    GiveawayTier,
+    GiveawayMessages,
+    GiveawayEntryMode,
     LastChanceOptions,
+    MaxParticipantsMode,
     BonusEntry,
     PauseOptions,
     GiveawaysMessages,
+    TextDropData,
+    WinnerCandidate,
+    WinnerCooldownOptions,
     GiveawayEditOptions,
     GiveawayRerollOptions,
 } from "./Constants";
 import { GiveawaysManager } from "./Manager";
-import { RichEmbed } from "./Util";
+import { RichEmbed, Template } from "./Util";
 import merge from "deepmerge";
-import serialize from "serialize-javascript";
 
 /**
  * Represents the Giveaway data class
  */
 export class Giveaway extends EventEmitter {
+    /**
+     * The IDs of the backup winners drawn along the winners, in the order they are promoted by a reroll
+     * @type {Array<String>}
+     */
+    backupWinnerIDs: string[];
+
     /**
      * The ID of the giveaway channel
      * @type {String}
      */
     channelID: string;
 
+    /**
+     * The prize claims of the winners, including the claimed and expired ones
+     * @type {Array<GiveawayClaim>}
+     */
+    claims: GiveawayClaim[];
+
     /**
      * Eris Client
      * @type {Client}
@@ -71,6 +98,12 @@ export class Giveaway extends EventEmitter {
      */
     guildID: string;
 
+    /**
+     * The draws of the giveaway, from the oldest. Entries are only ever appended
+     * @type {Array<GiveawayDraw>}
+     */
+    history: GiveawayDraw[];
+
     /**
      * The mention format of the user who hosts the giveaway
      * @type {String}
@@ -113,6 +146,25 @@ export class Giveaway extends EventEmitter {
      */
     options: GiveawayData;
 
+    /**
+     * The IDs of the members who entered the giveaway, kept up to date from the reactions or the button clicks
+     * @type {Set<String>}
+     */
+    participants: Set<string>;
+
+    /**
+     * The sync of the participants in flight, shared by its concurrent callers
+     * @type {?Promise<void>}
+     * @ignore
+     */
+    private participantsSync: Promise<void> | null;
+
+    /**
+     * Whether the participants of a reaction giveaway have been checked against its reactions since it was loaded
+     * @type {Boolean}
+     */
+    participantsSynced: boolean;
+
     /**
      * The prize of the giveaway
      * @type {String}
@@ -131,6 +183,19 @@ export class Giveaway extends EventEmitter {
      */
     thumbnail: string;
 
+    /**
+     * The ticket counts of the participants used by the odds estimates, keyed by user ID. They are computed again once a minute old
+     * @type {?Object}
+     * @ignore
+     */
+    private ticketCache: { computedAt: number; tickets: Map<string, number> } | null;
+
+    /**
+     * The IDs of the users waiting for a spot once the giveaway is full, in order of arrival
+     * @type {Array<String>}
+     */
+    waitlist: string[];
+
     /**
      * The winner count of the giveaway
      * @type {Number}
@@ -143,6 +208,12 @@ export class Giveaway extends EventEmitter {
      */
     winnerIDs: string[];
 
+    /**
+     * The prize tier of each winner, keyed by winner ID. A winner keeps their tier when other winners are replaced
+     * @type {Record<String, Number>}
+     */
+    winnerTiers: Record<string, number>;
+
     /**
      * Represents the Giveaway data class
      * @param manager The giveaways manager
@@ -151,8 +222,10 @@ export class Giveaway extends EventEmitter {
     constructor(manager: GiveawaysManager, options: GiveawayData) {
         super();
 
+        this.backupWinnerIDs = options.backupWinnerIDs ?? [];
         this.client = manager.client;
         this.channelID = options.channelID;
+        this.claims = options.claims ?? [];
         this.endAt = options.endAt ?? Infinity;
         this.ended = !!options.ended;
         this.endTimeout = null;
@@ -160,16 +233,32 @@ export class Giveaway extends EventEmitter {
         this.hostedBy = options.hostedBy;
         this.image = options.image;
         this.guildID = options.guildID;
+        this.history = options.history ?? [];
         this.manager = manager;
         this.message = null;
         this.messageID = options.messageID;
-        this.messages = options.messages;
+        // Giveaways started before some messages existed get their defaults
+        this.messages = merge(GiveawayMessages, options.messages ?? {});
         this.options = options;
+        this.participants = new Set(options.participants);
+        this.participantsSync = null;
+        this.participantsSynced = false;
         this.prize = options.prize;
         this.startAt = options.startAt;
         this.thumbnail = options.thumbnail;
+        this.ticketCache = null;
+        this.waitlist = options.waitlist ?? [];
         this.winnerCount = options.winnerCount;
         this.winnerIDs = options.winnerIDs ?? [];
+        this.winnerTiers = options.winnerTiers ?? Giveaway._assignTiers(options.prizes ?? [], this.winnerIDs);
+    }
+
+    /**
+     * The number of backup winners drawn along the winners when the giveaway ends
+     * @type {Number}
+     */
+    get backupWinnerCount(): number {
+        return this.options.backupWinnerCount ?? 0;
     }
 
     /**
@@ -177,7 +266,7 @@ export class Giveaway extends EventEmitter {
      * @type {Array<BonusEntry>}
      */
     get bonusEntries(): BonusEntry[] {
-        return eval(this.options.bonusEntries) ?? [];
+        return this.options.bonusEntries ?? [];
     }
 
     /**
@@ -198,6 +287,14 @@ export class Giveaway extends EventEmitter {
         return this.client.getChannel(this.channelID) as TextChannel;
     }
 
+    /**
+     * The prize claim options of the giveaway
+     * @type {ClaimOptions}
+     */
+    get claimOptions(): ClaimOptions {
+        return merge(ClaimOptions, this.options.claim ?? {});
+    }
+
     /**
      * The giveaway data
      * @type {GiveawayData}
@@ -212,6 +309,7 @@ export class Giveaway extends EventEmitter {
             ended: this.ended,
             winnerCount: this.winnerCount,
             prize: this.prize,
+            prizes: this.options.prizes,
             messages: this.messages,
             thumbnail: this.thumbnail,
             image: this.image,
@@ -220,22 +318,33 @@ export class Giveaway extends EventEmitter {
             embedColorEnd: this.embedColorEnd,
             botsCanWin: this.botsCanWin,
             exemptPermissions: this.exemptPermissions,
-            exemptMembers:
-                !this.options.exemptMembers ||
-                    typeof this.options.exemptMembers === "string"
-                    ? this.options.exemptMembers || undefined
-                    : serialize(this.options.exemptMembers),
-            bonusEntries:
-                !this.options.bonusEntries ||
-                    typeof this.options.bonusEntries === "string"
-                    ? this.options.bonusEntries || undefined
-                    : serialize(this.options.bonusEntries),
+            exemptMembers: this.options.exemptMembers,
+            bonusEntries: this.bonusEntries.length ? this.bonusEntries : undefined,
             reaction: this.reaction,
             winnerIDs: this.winnerIDs.length ? this.winnerIDs : undefined,
+            winnerTiers: Object.keys(this.winnerTiers).length ? this.winnerTiers : undefined,
+            backupWinnerCount: this.options.backupWinnerCount,
+            backupWinnerIDs: this.backupWinnerIDs.length ? this.backupWinnerIDs : undefined,
+            showBackupWinners: this.options.showBackupWinners,
+            history: this.history.length ? this.history : undefined,
             extraData: this.extraData,
             lastChance: this.options.lastChance,
             pauseOptions: this.options.pauseOptions,
             isDrop: this.options.isDrop || undefined,
+            entryMode: this.options.entryMode,
+            textDrop: this.options.textDrop,
+            requirements: this.options.requirements,
+            participants: this.participants.size ? [...this.participants] : undefined,
+            maxParticipants: this.options.maxParticipants,
+            maxParticipantsMode: this.options.maxParticipantsMode,
+            waitlist: this.waitlist.length ? this.waitlist : undefined,
+            winnerCooldown: this.options.winnerCooldown,
+            verification: this.options.verification,
+            winnerSelector: this.options.winnerSelector,
+            claim: this.options.claim,
+            claims: this.claims.length ? this.claims : undefined,
+            schemaVersion: this.manager.schemaVersion,
+            userSchemaVersion: this.manager.userSchemaVersion || undefined,
         };
     }
 
@@ -266,16 +375,11 @@ export class Giveaway extends EventEmitter {
     }
 
     /**
-     * The exemptMembers function of the giveaway
-     * @type {any}
+     * How members enter the giveaway
+     * @type {GiveawayEntryMode}
      */
-    get exemptMembersFunction(): any {
-        return this.options.exemptMembers
-            ? typeof this.options.exemptMembers === "string" &&
-                this.options.exemptMembers.includes("function anonymous")
-                ? eval(`(${this.options.exemptMembers})`)
-                : eval(this.options.exemptMembers)
-            : null;
+    get entryMode(): GiveawayEntryMode {
+        return this.options.entryMode ?? "reaction";
     }
 
     /**
@@ -296,6 +400,14 @@ export class Giveaway extends EventEmitter {
         return !!this.options.isDrop;
     }
 
+    /**
+     * Whether the giveaway has reached its maximum number of participants
+     * @type {Boolean}
+     */
+    get isFull(): boolean {
+        return this.maxParticipants !== null && this.participants.size >= this.maxParticipants;
+    }
+
     /**
      * The last chance object of the giveaway
      * @type {LastChanceOptions}
@@ -307,6 +419,22 @@ export class Giveaway extends EventEmitter {
         );
     }
 
+    /**
+     * The maximum number of participants of the giveaway
+     * @type {?Number}
+     */
+    get maxParticipants(): number | null {
+        return this.options.maxParticipants ?? null;
+    }
+
+    /**
+     * What happens once the giveaway is full: it ends, it stops accepting entries, or it puts the next entrants on a waitlist
+     * @type {MaxParticipantsMode}
+     */
+    get maxParticipantsMode(): MaxParticipantsMode {
+        return this.options.maxParticipantsMode ?? "close";
+    }
+
     /**
      * The original message URL of the giveaway
      * @type {String}
@@ -323,6 +451,22 @@ export class Giveaway extends EventEmitter {
         return merge(PauseOptions, this.options.pauseOptions ?? {});
     }
 
+    /**
+     * The claims which have been neither claimed nor expired yet
+     * @type {Array<GiveawayClaim>}
+     */
+    get pendingClaims(): GiveawayClaim[] {
+        return this.claims.filter((claim) => !claim.claimedAt && !claim.expiredAt);
+    }
+
+    /**
+     * The prize tiers of the giveaway, drawn in order. Empty for a giveaway with a single prize
+     * @type {Array<GiveawayPrize>}
+     */
+    get prizes(): GiveawayPrize[] {
+        return this.options.prizes ?? [];
+    }
+
     /**
      * The reaction of the giveaway
      * @type {String}
@@ -331,6 +475,14 @@ export class Giveaway extends EventEmitter {
         return this.options.reaction ?? this.manager.options.default.reaction;
     }
 
+    /**
+     * The entry requirements of the giveaway
+     * @type {?EntryRequirements}
+     */
+    get requirements(): EntryRequirements | null {
+        return this.options.requirements ?? null;
+    }
+
     /**
      * The remaining time of the giveaway
      * @type {Number}
@@ -339,6 +491,218 @@ export class Giveaway extends EventEmitter {
         return this.endAt - Date.now();
     }
 
+    /**
+     * The keyword or the question of a text drop. Its accepted answers are only persisted as hashes
+     * @type {?TextDropData}
+     */
+    get textDrop(): TextDropData | null {
+        return this.options.textDrop ?? null;
+    }
+
+    /**
+     * The prize tiers of the giveaway with their winners
+     * @type {Array<GiveawayTier>}
+     */
+    get tiers(): GiveawayTier[] {
+        return this.prizes.map((prize, tier) => ({ ...prize, winnerIDs: this.winnerIDs.filter((id) => this.winnerTiers[id] === tier) }));
+    }
+
+    /**
+     * The seed commitment of a verifiable giveaway. Its seed is left out until it is revealed by the draw
+     * @type {?DrawVerification}
+     */
+    get verification(): DrawVerification | null {
+        return Giveaway.redactSecrets(this.options).verification ?? null;
+    }
+
+    /**
+     * The winner cooldown of the giveaway. `null` lets recent winners win again
+     * @type {?WinnerCooldownOptions}
+     */
+    get winnerCooldown(): WinnerCooldownOptions | null {
+        return this.options.winnerCooldown !== undefined ? this.options.winnerCooldown : this.manager.options.winnerCooldown;
+    }
+
+    /**
+     * The name of the winner selector of the giveaway
+     * @type {String}
+     */
+    get winnerSelector(): string {
+        // The first members to send the answer of a text drop win it
+        return this.options.winnerSelector ?? (this.entryMode === "text" ? "first" : "weighted");
+    }
+
+    /**
+     * Assigns the winners of a draw to the prize tiers, in the order they were drawn
+     * @param prizes The prize tiers of the giveaway
+     * @param winnerIDs The IDs of the winners, in the order they were drawn
+     * @returns {Record<String, Number>} The prize tier of each winner, keyed by winner ID
+     * @ignore
+     */
+    private static _assignTiers(prizes: GiveawayPrize[], winnerIDs: string[]): Record<string, number> {
+        const winnerTiers: Record<string, number> = {};
+        let position = 0;
+
+        prizes.forEach((prize, tier) => {
+            for (const id of winnerIDs.slice(position, position += prize.count)) winnerTiers[id] = tier;
+        });
+
+        return winnerTiers;
+    }
+
+    /**
+     * Draws winners deterministically from a seed. Each pick hashes the seed with the pick number into a ticket
+     * among the remaining entries, and the picked user leaves the draw
+     * @param seed The seed of the draw
+     * @param entries The user IDs and their ticket counts, sorted by user ID
+     * @param winnerCount The number of winners to draw
+     * @returns {Array<String>} The IDs of the winners
+     * @ignore
+     */
+    private static _drawWithSeed(seed: string, entries: [string, number][], winnerCount: number): string[] {
+        const remainingEntries = [...entries];
+        const winnerIDs: string[] = [];
+
+        for (let i = 0; i < winnerCount && remainingEntries.length; i++) {
+            const hash = createHash("sha256").update(`${seed}:${i}`).digest("hex");
+            const totalTickets = remainingEntries.reduce((total, [, tickets]) => total + tickets, 0);
+            let ticket = Math.floor(parseInt(hash.slice(0, 13), 16) / 2 ** 52 * totalTickets);
+            const index = remainingEntries.findIndex(([, tickets]) => (ticket -= tickets) < 0);
+
+            winnerIDs.push(remainingEntries.splice(index, 1)[0][0]);
+        }
+
+        return winnerIDs;
+    }
+
+    /**
+     * Edits the message of an ended giveaway with its current winners and claims
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _editEndMessage(): Promise<void> {
+        this.message ??= await this.fetchMessage().catch(() => { }) as Message<PossiblyUncachedTextableChannel>;
+
+        if (!this.message) return;
+
+        const winners = (await this.fetchMembers(this.winnerIDs)).filter(Boolean);
+
+        this.message = await this.message.edit({
+            content: this.fillInString(this.messages.giveawayEnded),
+            embed: winners.length ? this.manager.generateEndEmbed(this, winners) : this.manager.generateInvalidParticipantsEndEmbed(this),
+            components: this.manager.generateClaimComponents(this)
+        }).catch(() => { }) as Message<PossiblyUncachedTextableChannel>;
+    }
+
+    /**
+     * Gets the ticket counts of the participants from the cache, computing only those of the participants who are not cached yet.
+     * Participants who left the guild have no ticket
+     * @returns {Promise<Map<String, Number>>} The ticket counts, keyed by user ID
+     * @ignore
+     */
+    private async _getTickets(): Promise<Map<string, number>> {
+        if (!this.ticketCache || this.ticketCache.computedAt + 60_000 <= Date.now()) this.ticketCache = { computedAt: Date.now(), tickets: new Map() };
+
+        const { tickets } = this.ticketCache;
+        const uncachedIDs = [...this.participants].filter((id) => !tickets.has(id));
+        const members = await this.fetchMembers(uncachedIDs);
+
+        for (const [i, id] of uncachedIDs.entries()) {
+            const user = members[i]?.user;
+
+            tickets.set(id, user ? 1 + (this.bonusEntries.length ? await this.checkBonusEntries(user).catch(() => 0) : 0) : 0);
+        }
+
+        return new Map([...tickets].filter(([id]) => this.participants.has(id)));
+    }
+
+    /**
+     * Promotes the next backup winners who can still win, skipping the ones who cannot. The skipped backups are dropped
+     * @param count The number of winners to promote
+     * @returns {Promise<Array<Member>>}
+     * @ignore
+     */
+    private async _promoteBackupWinners(count: number): Promise<Member[]> {
+        const promoted: Member[] = [];
+
+        while (promoted.length < count && this.backupWinnerIDs.length) {
+            const [member] = await this.fetchMembers([this.backupWinnerIDs.shift()]);
+
+            if (member && await this.checkWinnerEntry(member.user)) promoted.push(member);
+        }
+
+        return promoted;
+    }
+
+    /**
+     * Rebuilds the participants of a reaction giveaway from its reactions, with a single paged fetch.
+     * Reactions added or removed meanwhile are applied on top of the fetched ones
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _syncParticipants(): Promise<void> {
+        if (this.entryMode !== "reaction") return;
+
+        this.message ??= await this.fetchMessage().catch(() => { }) as Message<PossiblyUncachedTextableChannel>;
+
+        if (!this.message) return;
+
+        const previousEntrants = new Set([...this.participants, ...this.waitlist]);
+        let userCollection = await this.message.getReaction(this.reaction);
+
+        while (userCollection.length && userCollection.length % 100 === 0) {
+            const newUsers = await this.message.getReaction(this.reaction, {
+                after: userCollection[userCollection.length - 1] as any,
+            });
+
+            if (newUsers.length === 0) break;
+
+            userCollection = userCollection.concat(newUsers);
+        }
+
+        const entrants = new Set([...this.participants, ...this.waitlist]);
+        const reactedIDs = new Set(userCollection.filter((u) => u.id !== this.client.user.id).map((u) => u.id));
+
+        // Entries changed meanwhile are newer than the fetched reactions, so they are left as they are
+        for (const id of entrants) {
+            if (previousEntrants.has(id) && !reactedIDs.has(id)) this.removeParticipant(id);
+        }
+
+        // Reactions added while the manager was down are applied in the order of the fetch, as their actual order is unknown.
+        // Once the giveaway is full, they are waitlisted or their reaction is removed, like live entries
+        for (const id of reactedIDs) {
+            if (!previousEntrants.has(id) && !entrants.has(id) && this.addParticipant(id) === "full") {
+                this.message.removeReaction(this.reaction, id).catch(() => { });
+            }
+        }
+
+        this.participantsSynced = true;
+
+        await this.manager.editGiveaway(this.messageID, this.data);
+    }
+
+    /**
+     * Adds a participant to the giveaway, or puts them on the waitlist if it is full
+     * @param userID The ID of the user
+     * @returns {String} `entered`, `waitlisted`, or `full` if the user could not enter
+     */
+    addParticipant(userID: string): "entered" | "waitlisted" | "full" {
+        if (this.participants.has(userID)) return "entered";
+        if (this.waitlist.includes(userID)) return "waitlisted";
+
+        if (!this.isFull) {
+            this.participants.add(userID);
+            return "entered";
+        }
+
+        if (this.maxParticipantsMode === "waitlist") {
+            this.waitlist.push(userID);
+            return "waitlisted";
+        }
+
+        return "full";
+    }
+
     /**
      * Check if a user gets a bonus entries for the giveaway
      * @param user The user to check
@@ -352,40 +716,53 @@ export class Giveaway extends EventEmitter {
                     .fetchMembers({ userIDs: [user.id] })
                     .catch(() => { })
             )[0];
-        const entries: number[] = [0];
-        const cumulativeEntries: number[] = [];
 
         if (!member) return 0;
 
-        if (this.bonusEntries.length) {
-            for (const obj of this.bonusEntries) {
-                if (typeof obj.bonus === "function") {
-                    try {
-                        const result = await obj.bonus.apply(this, [member, this]);
-
-                        if (Number.isInteger(result) && result > 0) {
-                            if (obj.cumulative) {
-                                cumulativeEntries.push(result);
-                            } else {
-                                entries.push(result);
-                            }
-                        }
-                    } catch (err) {
-                        throw new Error(
-                            `Giveaway Message ID: ${this.messageID} \n ${serialize(
-                                obj.bonus
-                            )} \n ${err}`
-                        );
-                    }
-                }
+        return (await this.getEntryBreakdown(member)).bonusEntries;
+    }
+
+    /**
+     * Check if a member meets the entry requirements of the giveaway and is not blacklisted from the giveaways of the guild
+     * @param member The member to check
+     * @returns {Promise<?String>} Why the member cannot enter, `null` if they can
+     */
+    async checkRequirements(member: Member): Promise<string | null> {
+        const requirements = this.requirements;
+
+        const messages = this.messages;
+
+        if (this.manager.blacklist.get(member)) return messages.blacklisted;
+        if (!requirements) return null;
+
+        if (requirements.roles?.length) {
+            const matchedRoles = requirements.roles.filter((roleID) => member.roles.includes(roleID));
+
+            if (requirements.rolesMode === "all" ? matchedRoles.length < requirements.roles.length : !matchedRoles.length) {
+                return messages.missingRoles;
             }
         }
 
-        if (cumulativeEntries.length) {
-            entries.push(cumulativeEntries.reduce((a, b) => a + b));
+        if (requirements.forbiddenRoles?.some((roleID) => member.roles.includes(roleID))) return messages.forbiddenRole;
+        if (Number.isFinite(requirements.minAccountAge) && Date.now() - member.user.createdAt < requirements.minAccountAge) return messages.accountTooNew;
+
+        if (Number.isFinite(requirements.minMemberAge) && (!member.joinedAt || Date.now() - member.joinedAt < requirements.minMemberAge)) {
+            return messages.memberTooNew;
         }
 
-        return Math.max(...entries);
+        if (requirements.rule) {
+            const requirementRule = this.manager.requirementRules.get(requirements.rule.rule);
+
+            if (!requirementRule) {
+                throw new Error(`Giveaway Message ID: ${this.messageID} references an unregistered requirement rule "${requirements.rule.rule}"`);
+            }
+
+            const result = await requirementRule(member, this, requirements.rule.params);
+
+            if (result !== true) return typeof result === "string" ? result : messages.requirementNotMet;
+        }
+
+        return null;
     }
 
     /**
@@ -395,6 +772,8 @@ export class Giveaway extends EventEmitter {
      */
     async checkWinnerEntry(user: User): Promise<boolean> {
         if (this.winnerIDs.includes(user.id)) return false;
+        if (this.claims.some((claim) => claim.userID === user.id && claim.expiredAt)) return false;
+        if (this.manager.winnerHistory.isOnCooldown(this.guildID, user.id, this.winnerCooldown, this.messageID)) return false;
 
         const member: Member =
             this.channel.guild.members.get(user.id) ||
@@ -416,9 +795,33 @@ export class Giveaway extends EventEmitter {
 
         if (hasPermission) return false;
 
+        // Members may have lost a required role or been blacklisted since they entered
+        const rejectionReason = await this.checkRequirements(member).catch(() => "");
+
+        if (rejectionReason !== null) return false;
+
         return true;
     }
 
+    /**
+     * Claims the prize of a winner, if their claim is still pending
+     * @param userID The ID of the winner
+     * @returns {Promise<?GiveawayClaim>} The claim, `null` if the user has no pending claim
+     */
+    async claimPrize(userID: string): Promise<GiveawayClaim | null> {
+        const claim = this.pendingClaims.find((c) => c.userID === userID);
+
+        if (!claim) return null;
+
+        claim.claimedAt = Date.now();
+        await this.manager.editGiveaway(this.messageID, this.data);
+
+        this.manager.emit("giveawayPrizeClaimed", this, userID);
+        await this._editEndMessage();
+
+        return claim;
+    }
+
     /**
      * Edits a giveaway
      * @param options The edit options
@@ -430,6 +833,21 @@ export class Giveaway extends EventEmitter {
                 return reject(`Giveaway Message ID: ${this.messageID} has ended`);
             }
 
+            const missingRules = this.manager.getMissingRules({
+                bonusEntries: options.newBonusEntries,
+                exemptMembers: options.newExemptMembers,
+                requirements: options.newRequirements,
+                winnerSelector: options.newWinnerSelector
+            });
+
+            if (missingRules.length) {
+                return reject(`Giveaway Message ID: ${this.messageID} references unregistered ${missingRules.join(", ")}`);
+            }
+
+            if (this.options.verification && options.newWinnerSelector !== undefined && options.newWinnerSelector !== "weighted") {
+                return reject("`options.newWinnerSelector` is not supported by verifiable giveaways");
+            }
+
             await this.fetchMessage().catch(() => { });
 
             if (!this.message) {
@@ -460,7 +878,8 @@ export class Giveaway extends EventEmitter {
             if (
                 Number.isInteger(options.newWinnerCount) &&
                 options.newWinnerCount > 0 &&
-                !this.isDrop
+                !this.isDrop &&
+                !this.prizes.length
             ) {
                 this.winnerCount = options.newWinnerCount;
             }
@@ -476,14 +895,37 @@ export class Giveaway extends EventEmitter {
 
             if (Array.isArray(options.newBonusEntries) && !this.isDrop) {
                 this.options.bonusEntries = options.newBonusEntries.filter(
-                    (elem) => typeof elem === "object"
-                ) as any;
+                    (elem) => typeof elem?.rule === "string"
+                );
             }
 
-            if (typeof options.newExemptMembers === "function") {
-                this.options.exemptMembers = options.newExemptMembers as any;
+            if (typeof options.newExemptMembers?.rule === "string") {
+                this.options.exemptMembers = options.newExemptMembers;
             }
 
+            if (options.newRequirements && typeof options.newRequirements === "object") {
+                this.options.requirements = options.newRequirements;
+            }
+
+            if (Number.isInteger(options.newMaxParticipants) && options.newMaxParticipants > 0) {
+                this.options.maxParticipants = options.newMaxParticipants;
+            }
+
+            if (["end", "close", "waitlist"].includes(options.newMaxParticipantsMode)) {
+                this.options.maxParticipantsMode = options.newMaxParticipantsMode;
+            }
+
+            if (typeof options.newWinnerSelector === "string") {
+                this.options.winnerSelector = options.newWinnerSelector;
+            }
+
+            if (options.newWinnerCooldown !== undefined && typeof options.newWinnerCooldown === "object") {
+                this.options.winnerCooldown = options.newWinnerCooldown;
+            }
+
+            // A raised cap lets the waitlist in
+            while (this.waitlist.length && !this.isFull) this.participants.add(this.waitlist.shift());
+
             if (
                 options.newLastChance &&
                 typeof options.newLastChance === "object" &&
@@ -497,7 +939,7 @@ export class Giveaway extends EventEmitter {
 
             await this.manager.editGiveaway(this.messageID, this.data);
 
-            if (this.remainingTime <= 0) {
+            if (this.remainingTime <= 0 || (this.isFull && this.maxParticipantsMode === "end")) {
                 this.manager.end(this.messageID).catch(() => { });
             } else {
                 const embed = this.manager.generateMainEmbed(this);
@@ -528,14 +970,35 @@ export class Giveaway extends EventEmitter {
 
             if (!this.message) return reject(`Unable to fetch Giveaway with ID ${this.messageID}`);
 
-            if (this.isDrop || this.endAt < this.client.startTime) this.endAt = Date.now();
+            if (this.isDrop || this.endAt < this.client.startTime || (this.isFull && this.maxParticipantsMode === "end")) this.endAt = Date.now();
 
             await this.manager.editGiveaway(this.messageID, this.data);
 
-            const winners = await this.roll();
+            // The backup winners come from the same draw, right after the winners
+            const drawn = await this.roll(this.winnerCount + this.backupWinnerCount);
+            const winners = drawn.slice(0, this.winnerCount);
+
+            this.backupWinnerIDs = drawn.slice(this.winnerCount).map((w) => w.id);
+
+            // The seeded draw picks its winners one after the other, so the verification only keeps the first ones and leaves the backups private
+            if (this.options.verification?.winnerIDs) {
+                const { verification } = this.options;
+
+                this.options.verification = { ...verification, winnerCount: this.winnerCount, winnerIDs: verification.winnerIDs.slice(0, this.winnerCount) };
+            }
+
+            this.history.push({
+                drawnAt: Date.now(),
+                kind: "end",
+                winnerIDs: winners.map((w) => w.id),
+                backupWinnerIDs: this.backupWinnerIDs.length ? [...this.backupWinnerIDs] : undefined,
+                participantCount: this.participants.size
+            });
 
             if (winners.length > 0) {
                 this.winnerIDs = winners.map((w) => w.id);
+                this.winnerTiers = Giveaway._assignTiers(this.prizes, this.winnerIDs);
+                await this.openClaims(winners);
 
                 await this.manager.editGiveaway(this.messageID, this.data);
 
@@ -543,7 +1006,8 @@ export class Giveaway extends EventEmitter {
 
                 this.message = await this.message.edit({
                     content: this.fillInString(this.messages.giveawayEnded),
-                    embed: embed
+                    embed: embed,
+                    components: this.manager.generateClaimComponents(this)
                 }).catch(() => { }) as Message<PossiblyUncachedTextableChannel>;
 
                 let formattedWinners = winners.map((w) => `<@${w.id}>`).join(", ");
@@ -645,9 +1109,12 @@ export class Giveaway extends EventEmitter {
                     });
                 }
 
+                await this.manager.editGiveaway(this.messageID, this.data);
+
                 this.message = await this.message.edit({
                     content: this.fillInString(this.messages.giveawayEnded),
-                    embed: this.fillInEmbed(this.manager.generateInvalidParticipantsEndEmbed(this))
+                    embed: this.fillInEmbed(this.manager.generateInvalidParticipantsEndEmbed(this)),
+                    components: []
                 }).catch(() => { }) as Message<PossiblyUncachedTextableChannel>;
 
                 resolve([]);
@@ -677,16 +1144,16 @@ export class Giveaway extends EventEmitter {
      * @returns {Promise<Boolean>}
      */
     async exemptMembers(member: Member): Promise<boolean> {
-        if (typeof this.exemptMembersFunction === "function") {
+        if (this.options.exemptMembers) {
+            const exemptRule = this.manager.exemptRules.get(this.options.exemptMembers.rule);
+
+            if (!exemptRule) {
+                throw new Error(`Giveaway Message ID: ${this.messageID} references an unregistered exempt rule "${this.options.exemptMembers.rule}"`);
+            }
+
             try {
-                const result = await this.exemptMembersFunction(member);
-                return result;
+                return await exemptRule(member, this, this.options.exemptMembers.params);
             } catch (err) {
-                new Error(
-                    `Giveaway Message ID: ${this.messageID} \n ${serialize(
-                        this.exemptMembersFunction
-                    )} \n ${err}`
-                );
                 return false;
             }
         }
@@ -698,6 +1165,55 @@ export class Giveaway extends EventEmitter {
         return false;
     }
 
+    /**
+     * Expires the claims whose deadline has passed, and rerolls their slots only. The other winners keep their win
+     * @returns {Promise<Array<Member>>} The new winners
+     */
+    async expireClaims(): Promise<Member[]> {
+        const expiredClaims = this.pendingClaims.filter((claim) => claim.deadline <= Date.now());
+
+        if (!expiredClaims.length) return [];
+
+        const expiredIDs = expiredClaims.map((claim) => claim.userID);
+
+        for (const claim of expiredClaims) {
+            claim.expiredAt = Date.now();
+            this.manager.emit("giveawayClaimExpired", this, claim.userID);
+        }
+
+        const newWinners = await this.reroll({ replace: expiredIDs, reason: "The prize was not claimed in time", messages: { error: null } }).catch((): Member[] => []);
+
+        // Expired winners lose their win even when nobody is left to replace them
+        this.winnerIDs = this.winnerIDs.filter((id) => !expiredIDs.includes(id));
+        for (const id of expiredIDs) delete this.winnerTiers[id];
+
+        await this.manager.editGiveaway(this.messageID, this.data);
+        await this._editEndMessage();
+
+        if (newWinners.length) this.manager.emit("giveawayRerolled", this, newWinners, this.history.at(-1));
+
+        return newWinners;
+    }
+
+    /**
+     * Fetches members of the giveaway guild, from the cache when they are cached
+     * @param userIDs The IDs of the members
+     * @returns {Promise<Array<Member>>}
+     */
+    async fetchMembers(userIDs: string[]): Promise<Member[]> {
+        return Promise.all(
+            userIDs.map(
+                async (userID) =>
+                    this.channel.guild.members.get(userID) ||
+                    (
+                        await this.channel.guild
+                            .fetchMembers({ userIDs: [userID] })
+                            .catch(() => { })
+                    )[0]
+            )
+        );
+    }
+
     /**
      * Fetches the giveaway message from its channel
      * @returns {Promise<Message>}
@@ -722,6 +1238,28 @@ export class Giveaway extends EventEmitter {
         });
     }
 
+    /**
+     * Fetches the users who entered the giveaway from its participants. Members who left the guild are left out
+     * @param includeWaitlist Whether the users on the waitlist are fetched as well
+     * @returns {Promise<Array<User>>}
+     */
+    async fetchParticipants(includeWaitlist = false): Promise<User[]> {
+        if (this.entryMode === "reaction" && !this.participantsSynced) await this.syncParticipants();
+
+        const participantIDs = includeWaitlist ? [...this.participants, ...this.waitlist] : [...this.participants];
+        const members = new Map(participantIDs.map((id) => [id, this.channel.guild.members.get(id)]));
+        const uncachedIDs = participantIDs.filter((id) => !members.get(id));
+
+        for (let i = 0; i < uncachedIDs.length; i += 100) {
+            for (const member of await this.channel.guild.fetchMembers({ userIDs: uncachedIDs.slice(i, i + 100) }).catch((): Member[] => [])) {
+                members.set(member.id, member);
+            }
+        }
+
+        // Kept in order of entry, which some winner selectors rely on
+        return participantIDs.map((id) => members.get(id)?.user).filter(Boolean);
+    }
+
     /**
      * Fills in a embed with giveaway properties
      * @param embed The filled in embed
@@ -749,26 +1287,173 @@ export class Giveaway extends EventEmitter {
     }
 
     /**
-     * Fills in a string with giveaway properties
+     * Fills in a string with giveaway properties. See `Template` for the available placeholders
      * @param text The filled in text
+     * @param variables Optional values overriding the giveaway properties, such as `winners`
      * @returns {?String}
      */
-    fillInString(text: string): string | null {
+    fillInString(text: string, variables: Record<string, any> = {}): string | null {
         if (typeof text !== "string") return null;
-        [...new Set(text.match(/\{[^{}]{1,}\}/g))]
-            .filter((match) => match?.slice(1, -1).trim() !== "")
-            .forEach((match) => {
-                let replacer;
-
-                try {
-                    replacer = eval(match.slice(1, -1));
-                } catch (err) {
-                    replacer = match;
+
+        return Template.render(
+            text,
+            {
+                prize: this.prize,
+                hostedBy: this.hostedBy,
+                messageURL: this.messageURL,
+                winnerCount: this.winnerCount,
+                endAt: this.endAt,
+                extraData: this.extraData,
+                participantCount: this.participants.size,
+                maxParticipants: this.maxParticipants,
+                keyword: this.textDrop?.keyword,
+                question: this.textDrop?.question,
+                ...variables
+            },
+            this.manager.options.legacyPlaceholders
+        );
+    }
+
+    /**
+     * Explains the entries of a member: the bonus rules they match, the cumulative and non-cumulative totals, and their final ticket count.
+     * Only the highest of the two totals is granted, on top of the regular entry
+     * @param member The member
+     * @returns {Promise<EntryBreakdown>}
+     */
+    async getEntryBreakdown(member: Member): Promise<EntryBreakdown> {
+        const matchedRules: EntryBreakdown["matchedRules"] = [];
+
+        for (const obj of this.bonusEntries) {
+            const bonusRule = this.manager.bonusRules.get(obj.rule);
+
+            if (!bonusRule) {
+                throw new Error(`Giveaway Message ID: ${this.messageID} references an unregistered bonus rule "${obj.rule}"`);
+            }
+
+            try {
+                const result = await bonusRule(member, this, obj.params);
+
+                if (Number.isInteger(result) && result > 0) {
+                    matchedRules.push({ rule: obj.rule, entries: result, cumulative: !!obj.cumulative });
                 }
+            } catch (err) {
+                throw new Error(`Giveaway Message ID: ${this.messageID} \n Bonus rule: ${obj.rule} \n ${err}`);
+            }
+        }
 
-                text = text.replaceAll(match, replacer);
-            });
-        return text;
+        const cumulativeEntries = matchedRules.filter((match) => match.cumulative).reduce((total, match) => total + match.entries, 0);
+        const nonCumulativeEntries = Math.max(0, ...matchedRules.filter((match) => !match.cumulative).map((match) => match.entries));
+        const bonusEntries = Math.max(cumulativeEntries, nonCumulativeEntries);
+
+        return {
+            matchedRules,
+            cumulativeEntries,
+            nonCumulativeEntries,
+            bonusEntries,
+            tickets: 1 + bonusEntries
+        };
+    }
+
+    /**
+     * Estimates the chance of a member to win, from the current participants and their tickets.
+     * The other participants are assumed to be valid winners, so the estimate is optimistic when some of them are not.
+     * The tickets of the other participants are cached for a minute, so repeated estimates do not compute them again
+     * @param member The member
+     * @returns {Promise<Number>} A probability between 0 and 1
+     */
+    async getOdds(member: Member): Promise<number> {
+        if (this.ended) return this.winnerIDs.includes(member.id) ? 1 : 0;
+        if (!this.participants.has(member.id) || !(await this.checkWinnerEntry(member.user))) return 0;
+
+        const drawCount = Math.min(this.winnerCount, this.participants.size);
+
+        if (drawCount >= this.participants.size) return 1;
+
+        const { tickets } = await this.getEntryBreakdown(member);
+        const otherTickets = [...(await this._getTickets())].filter(([id]) => id !== member.id).map(([, count]) => count);
+        let remainingTickets = otherTickets.reduce((total, count) => total + count, 0);
+
+        if (!remainingTickets) return 1;
+
+        // A draw picks a participant with a chance proportional to their tickets, so the tickets it takes out of the pool
+        // are on average the sum of the squared ticket counts over the total
+        const drawnTickets = otherTickets.reduce((total, count) => total + count ** 2, 0) / remainingTickets;
+        let missChance = 1;
+
+        for (let i = 0; i < drawCount; i++) {
+            // Once the other participants are all drawn, the member is drawn as well
+            if (remainingTickets <= 0) return 1;
+
+            missChance *= remainingTickets / (remainingTickets + tickets);
+            remainingTickets -= drawnTickets;
+        }
+
+        return 1 - missChance;
+    }
+
+    /**
+     * Hashes an accepted answer of a text drop, so the answer is never persisted in plain text.
+     * The hash is not salted, so it only hides the answers from a casual look: a short answer can be found back by hashing guesses
+     * @param answer The answer
+     * @param caseSensitive Whether the letter case matters
+     * @returns {String}
+     */
+    static hashAnswer(answer: string, caseSensitive = false): string {
+        return createHash("sha256").update(Giveaway.normalizeAnswer(answer, caseSensitive)).digest("hex");
+    }
+
+    /**
+     * Whether the content of a message matches the keyword or one of the accepted answers of a text drop
+     * @param content The content of the message
+     * @returns {Boolean}
+     */
+    matchesTextDrop(content: string): boolean {
+        if (!this.textDrop || typeof content !== "string") return false;
+
+        if (typeof this.textDrop.keyword === "string") {
+            return Giveaway.normalizeAnswer(content, this.textDrop.caseSensitive) === Giveaway.normalizeAnswer(this.textDrop.keyword, this.textDrop.caseSensitive);
+        }
+
+        return (this.textDrop.answerHashes ?? []).includes(Giveaway.hashAnswer(content, this.textDrop.caseSensitive));
+    }
+
+    /**
+     * Normalizes an answer of a text drop, trimming and collapsing its whitespaces
+     * @param answer The answer
+     * @param caseSensitive Whether the letter case matters
+     * @returns {String}
+     */
+    static normalizeAnswer(answer: string, caseSensitive = false): string {
+        const normalized = answer.trim().replace(/\s+/g, " ");
+
+        return caseSensitive ? normalized : normalized.toLowerCase();
+    }
+
+    /**
+     * Opens a prize claim for each winner who has none yet, and drops the pending claims of the users who are no longer winners.
+     * Winners are sent the claim button by DM if the claim method is `dm`
+     * @param winners The winners
+     * @returns {Promise<void>}
+     */
+    async openClaims(winners: Member[]): Promise<void> {
+        if (!this.claimOptions.enabled) return;
+
+        const deadline = Date.now() + this.claimOptions.duration;
+
+        this.claims = this.claims.filter((claim) => claim.claimedAt || claim.expiredAt || this.winnerIDs.includes(claim.userID));
+
+        for (const winner of winners) {
+            if (this.claims.some((claim) => claim.userID === winner.id && !claim.expiredAt)) continue;
+
+            this.claims.push({ userID: winner.id, deadline });
+
+            if (this.claimOptions.method === "dm") {
+                winner.user.getDMChannel().then((channel) => channel.createMessage({
+                    content: this.fillInString(this.messages.claimDM, { claimDeadline: deadline }),
+                    components: this.manager.generateClaimComponents(this, true)
+                })).catch(() => { });
+            }
+        }
     }
 
     /**
@@ -829,7 +1514,39 @@ export class Giveaway extends EventEmitter {
     }
 
     /**
-     * Rerolls a giveaway
+     * Leaves the secrets out of a giveaway data before it is handed out, that is the seed of a verifiable giveaway until it is revealed,
+     * and the backup winners unless the giveaway shows them
+     * @param data The giveaway data
+     * @returns {GiveawayData}
+     */
+    static redactSecrets<T extends GiveawayData>(data: T): T {
+        const redacted = { ...data };
+
+        if (data.verification?.seed && !data.verification.revealedAt) redacted.verification = { ...data.verification, seed: undefined };
+
+        if (!data.showBackupWinners) {
+            redacted.backupWinnerIDs = undefined;
+            redacted.history = data.history?.map((draw) => ({ ...draw, backupWinnerIDs: undefined }));
+        }
+
+        return redacted;
+    }
+
+    /**
+     * Removes a participant from the giveaway or from its waitlist. The spot they leave goes to the first user on the waitlist
+     * @param userID The ID of the user
+     * @returns {void}
+     */
+    removeParticipant(userID: string): void {
+        this.waitlist = this.waitlist.filter((id) => id !== userID);
+
+        if (this.participants.delete(userID) && this.waitlist.length && !this.isFull) {
+            this.participants.add(this.waitlist.shift());
+        }
+    }
+
+    /**
+     * Rerolls a giveaway. With `options.replace`, only the listed winners are replaced and the others keep their win
      * @param options The reroll options
      * @param interaction Optional Eris' command interaction
      * @returns {Promise<Array<Member>>}
@@ -847,17 +1564,72 @@ export class Giveaway extends EventEmitter {
 
             if (options.winnerCount && (!Number.isInteger(options.winnerCount) || options.winnerCount < 1)) return reject(`options.winnerCount is not an integet (val=${options.winnerCount})`);
 
-            const winners = await this.roll(options.winnerCount || undefined);
+            const tier = options.tier !== undefined ? this.tiers[options.tier] : null;
+
+            if (options.tier !== undefined && !tier) return reject(`options.tier is not a prize tier of the giveaway (val=${options.tier})`);
+
+            // Rerolling a tier replaces all of its winners and fills its empty spots, the other tiers are kept
+            const replacedIDs = tier
+                ? tier.winnerIDs
+                : Array.isArray(options.replace) ? [...new Set(options.replace)].filter((id) => this.winnerIDs.includes(id)) : [];
+
+            if (!tier && Array.isArray(options.replace) && !replacedIDs.length) return reject("`options.replace` does not contain any winner of the giveaway");
+
+            // A partial reroll keeps the other winners and never draws a previous winner again
+            const partial = !!tier || replacedIDs.length > 0;
+            const excludedIDs = partial ? [...this.winnerIDs, ...this.history.flatMap((draw) => draw.winnerIDs)] : [];
+            const rerollCount = tier?.count || replacedIDs.length || options.winnerCount || this.winnerCount;
+            // The backup winners are promoted first, only the spots they cannot fill are drawn again
+            const winners = await this._promoteBackupWinners(rerollCount);
+
+            if (winners.length < rerollCount) winners.push(...await this.roll(rerollCount - winners.length, true, [...excludedIDs, ...winners.map((w) => w.id)]));
 
             if (winners.length > 0) {
-                this.winnerIDs = winners.map((w) => w.id);
+                const newWinnerIDs = winners.map((w) => w.id);
+                let winnerIDs = newWinnerIDs;
+                let winnerTiers = Giveaway._assignTiers(this.prizes, newWinnerIDs);
+
+                if (partial) {
+                    winnerIDs = [];
+                    winnerTiers = {};
+
+                    // The new winners take the spots, and the prize tiers, of the winners they replace
+                    for (const id of this.winnerIDs) {
+                        const winnerID = replacedIDs.includes(id) ? newWinnerIDs.shift() : id;
+
+                        if (!winnerID) continue;
+
+                        winnerIDs.push(winnerID);
+                        if (id in this.winnerTiers) winnerTiers[winnerID] = this.winnerTiers[id];
+                    }
+
+                    // The remaining new winners fill the empty spots of the rerolled tier
+                    for (const id of newWinnerIDs) {
+                        winnerIDs.push(id);
+                        winnerTiers[id] = options.tier;
+                    }
+                }
+
+                this.history.push({
+                    drawnAt: Date.now(),
+                    kind: "reroll",
+                    winnerIDs: winners.map((w) => w.id),
+                    replacedWinnerIDs: partial ? replacedIDs : this.winnerIDs,
+                    triggeredBy: options.triggeredBy ?? interaction?.member?.id ?? interaction?.user?.id,
+                    participantCount: this.participants.size,
+                    reason: options.reason
+                });
+                this.winnerIDs = winnerIDs;
+                this.winnerTiers = winnerTiers;
+                await this.openClaims(winners);
                 await this.manager.editGiveaway(this.messageID, this.data);
 
-                const embed = this.manager.generateEndEmbed(this, winners);
+                const embed = this.manager.generateEndEmbed(this, partial ? (await this.fetchMembers(winnerIDs)).filter(Boolean) : winners);
 
                 this.message.edit({
                     content: this.fillInString(this.messages.giveawayEnded),
-                    embed: embed
+                    embed: embed,
+                    components: this.manager.generateClaimComponents(this)
                 }).catch(() => { });
 
                 let formattedWinners = winners.map((w) => `<@${w.id}>`).join(", ");
@@ -955,6 +1727,9 @@ export class Giveaway extends EventEmitter {
 
                 resolve(winners);
             } else {
+                // Rerolls without error message, like the ones of the expired claims, stay silent
+                if (!options.messages.error) return resolve([]);
+
                 const embed = this.fillInEmbed((options.messages.error as AdvancedMessageContent).embed as RichEmbed);
 
                 if (options.interactionOptions.enabled) {
@@ -978,97 +1753,104 @@ export class Giveaway extends EventEmitter {
     /**
      * Roll a giveaway to obtains winner(s)
      * @param winnerCount The winner count
+     * @param includeWaitlist Whether the users on the waitlist fill the spots the participants cannot, in the order of the waitlist
+     * @param excludedIDs The IDs of the users who cannot be drawn
      * @returns {Promise<Array<Member>>}
      */
-    async roll(winnerCount = this.winnerCount): Promise<Member[]> {
+    async roll(winnerCount = this.winnerCount, includeWaitlist = false, excludedIDs: string[] = []): Promise<Member[]> {
         if (!this.message) return [];
 
-        const reactionUsers = await this.message.getReaction(this.reaction);
+        const userCollection = await this.fetchParticipants(includeWaitlist);
 
-        if (!reactionUsers.length) return [];
+        if (!userCollection.length) return [];
 
         this.channel.guild.fetchMembers().catch(() => { });
 
-        let userCollection = reactionUsers;
+        const waitlistedIDs = new Set(this.waitlist);
+        const drawableUsers = userCollection
+            .filter((u) => !u.bot || u.bot === this.botsCanWin)
+            .filter((u) => u.id !== this.client.user.id)
+            .filter((u) => !excludedIDs.includes(u.id));
+        const users = drawableUsers.filter((u) => !waitlistedIDs.has(u.id));
+        const waitlistedUsers = drawableUsers.filter((u) => waitlistedIDs.has(u.id));
 
-        while (userCollection.length % 100 === 0) {
-            const newUsers = await this.message.getReaction(this.reaction, {
-                after: userCollection[userCollection.length - 1] as any,
-            });
+        if (!drawableUsers.length) return [];
 
-            if (newUsers.length === 0) break;
+        // A verifiable giveaway draws its winners from its seed, so the draw can be reproduced once the seed is revealed.
+        // Its waitlist is not promoted, as it is not part of the draw. A record imported without its seed cannot be drawn from it anymore
+        if (this.options.verification?.seed) {
+            const { verification } = this.options;
+            const entries: [string, number][] = [];
 
-            userCollection = userCollection.concat(newUsers);
-        }
+            for (const user of users) {
+                if (!(await this.checkWinnerEntry(user))) continue;
 
-        const users = userCollection
-            .filter((u) => !u.bot || u.bot === this.botsCanWin)
-            .filter((u) => u.id !== this.client.user.id);
+                entries.push([user.id, 1 + (this.bonusEntries.length ? await this.checkBonusEntries(user) : 0)]);
+            }
 
-        if (!users.length) return [];
+            entries.sort(([a], [b]) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0));
 
-        let userArray: User[];
+            if (!verification.revealedAt) {
+                const winnerIDs = Giveaway._drawWithSeed(verification.seed, entries, winnerCount);
 
-        if (this.bonusEntries.length) {
-            userArray = users;
+                this.options.verification = { ...verification, revealedAt: Date.now(), winnerCount, entries, winnerIDs };
 
-            for (const user of userArray.slice()) {
-                const isUserValidEntry = await this.checkWinnerEntry(user);
+                return this.fetchMembers(winnerIDs);
+            }
 
-                if (!isUserValidEntry) continue;
+            // Each reroll draws from the seed with its own number, and records its entries to be reproduced as well
+            const rerolls = verification.rerolls ?? [];
+            const winnerIDs = Giveaway._drawWithSeed(`${verification.seed}:reroll:${rerolls.length + 1}`, entries, winnerCount);
 
-                const highestBonusEntries = await this.checkBonusEntries(user);
-                if (!highestBonusEntries) continue;
+            this.options.verification = { ...verification, rerolls: [...rerolls, { drawnAt: Date.now(), winnerCount, entries, winnerIDs }] };
 
-                for (let i = 0; i < highestBonusEntries; i++) userArray.push(user);
-            }
+            return this.fetchMembers(winnerIDs);
         }
 
-        let rolledWinners: User[];
+        const selector = this.manager.winnerSelectors.get(this.winnerSelector);
 
-        userArray = userArray?.length > users.length ? userArray : users;
-        /* eslint-disable-next-line */
-        rolledWinners = Array.from(
-            {
-                length: Math.min(winnerCount, users.length),
-            },
-            () => userArray.splice(Math.floor(Math.random() * userArray.length), 1)[0]
-        );
+        if (!selector) {
+            throw new Error(`Giveaway Message ID: ${this.messageID} references an unregistered winner selector "${this.winnerSelector}"`);
+        }
+
+        const candidates: WinnerCandidate[] = [];
 
+        for (const user of users) {
+            candidates.push({ user, tickets: 1 + (this.bonusEntries.length ? await this.checkBonusEntries(user) : 0) });
+        }
+
+        const usersByID = new Map(users.map((user) => [user.id, user]));
         const winners: User[] = [];
 
-        for (const u of rolledWinners) {
-            const isValidEntry =
-                !winners.some((winner) => winner.id === u.id) &&
-                (await this.checkWinnerEntry(u));
+        // The selector orders the candidates, the first valid ones win so invalid picks are replaced by the next ones
+        for (const userID of await selector.select(candidates, winnerCount, this)) {
+            if (winners.length >= winnerCount) break;
 
-            if (isValidEntry) {
-                winners.push(u);
-            } else {
-                for (const user of userArray || users) {
-                    const isUserValidEntry =
-                        !winners.some((winner) => winner.id === user.id) &&
-                        (await this.checkWinnerEntry(user));
-
-                    if (isUserValidEntry) {
-                        winners.push(user);
-                        break;
-                    }
-                }
-            }
+            const user = usersByID.get(userID);
+
+            if (user && !winners.includes(user) && (await this.checkWinnerEntry(user))) winners.push(user);
         }
 
-        return Promise.all(
-            winners.map(
-                async (user) =>
-                    this.channel.guild.members.get(user.id) ||
-                    (
-                        await this.channel.guild
-                            .fetchMembers({ userIDs: [user.id] })
-                            .catch(() => { })
-                    )[0]
-            )
-        );
+        // The waitlist is not drawn from, it is promoted in its order
+        for (const user of waitlistedUsers) {
+            if (winners.length >= winnerCount) break;
+
+            if (await this.checkWinnerEntry(user)) winners.push(user);
+        }
+
+        return this.fetchMembers(winners.map((user) => user.id));
+    }
+
+    /**
+     * Syncs the participants of a reaction giveaway with its reactions. A sync already in flight is reused rather than fetching the reactions again
+     * @returns {Promise<void>}
+     */
+    syncParticipants(): Promise<void> {
+        this.participantsSync ??= this._syncParticipants().finally(() => {
+            this.participantsSync = null;
+        });
+
+        return this.participantsSync;
     }
 
     /**
@@ -1105,4 +1887,27 @@ export class Giveaway extends EventEmitter {
             resolve(this);
         });
     }
+
+    /**
+     * Reproduces the draws of a verifiable giveaway from its data, and checks them against the commitment published when it started
+     * and the winners it announced. Rerolls are checked as well
+     * @param data The giveaway data
+     * @returns {DrawVerificationResult} Whether every draw is valid, and the winners of the first draw
+     */
+    static verifyDraw(data: GiveawayData): DrawVerificationResult {
+        const verification = data.verification;
+
+        if (!verification?.revealedAt || !verification.entries) return { valid: false, winnerIDs: [] };
+
+        const sameWinners = (a: string[], b: string[] = []) => a.length === b.length && a.every((id, i) => id === b[i]);
+        const winnerIDs = Giveaway._drawWithSeed(verification.seed, verification.entries, verification.winnerCount);
+        const valid =
+            createHash("sha256").update(verification.seed).digest("hex") === verification.commitment &&
+            sameWinners(winnerIDs, verification.winnerIDs) &&
+            (verification.rerolls ?? []).every((reroll, i) =>
+                sameWinners(Giveaway._drawWithSeed(`${verification.seed}:reroll:${i + 1}`, reroll.entries, reroll.winnerCount), reroll.winnerIDs)
+            );
+
+        return { valid, winnerIDs };
+    }
 }
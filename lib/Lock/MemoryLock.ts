@@ -0,0 +1,43 @@
+import { GiveawayLock } from "../Constants";
+
+/**
+ * Represents a lock held in memory. It only prevents concurrent operations within the same process,
+ * processes sharing a storage need a lock backed by that storage
+ */
+export class MemoryLock implements GiveawayLock {
+    /**
+     * The expiry timestamps of the held leases, keyed by lock key
+     * @type {Map<String, Number>}
+     */
+    leases: Map<string, number>;
+
+    /**
+     * Represents a lock held in memory
+     */
+    constructor() {
+        this.leases = new Map();
+    }
+
+    /**
+     * Acquires a lease on a key, unless another unexpired lease is held on it
+     * @param key The lock key
+     * @param duration How long the lease lasts if it is not released
+     * @returns {Promise<Boolean>} Whether the lease was acquired
+     */
+    async acquire(key: string, duration: number): Promise<boolean> {
+        if (this.leases.get(key) > Date.now()) return false;
+
+        this.leases.set(key, Date.now() + duration);
+
+        return true;
+    }
+
+    /**
+     * Releases the lease on a key
+     * @param key The lock key
+     * @returns {Promise<void>}
+     */
+    async release(key: string): Promise<void> {
+        this.leases.delete(key);
+    }
+}
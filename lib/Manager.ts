@@ -1,48 +1,153 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
 import {
+    ActionRow,
     AdvancedMessageContent,
     Client,
     CommandInteraction,
+    ComponentInteraction,
+    Constants,
     GuildTextableChannel,
+    Interaction,
     Member,
     Message,
     PossiblyUncachedTextableChannel,
     RawPacket
 } from "eris";
+import { createHash, randomBytes } from "crypto";
 import { EventEmitter } from "events";
+import { GiveawayArchive } from "./Archive";
+import { GiveawayBlacklist } from "./Blacklist";
+import { GiveawayScheduler } from "./Scheduler";
 import {
+    BonusRule,
+    ButtonGiveawayMessages,
+    ComponentIDs,
+    ExemptRule,
     GiveawayData,
     GiveawayEditOptions,
+    GiveawayExport,
+    GiveawayExportData,
+    GiveawayImportOptions,
+    GiveawayLock,
     GiveawayManagerOptions,
     GiveawayMessages,
+    GiveawayMigration,
+    GiveawayMigrations,
     GiveawayRerollOptions,
     GiveawaysManagerOptions,
     GiveawayStartOptions,
-    PauseOptions
+    GiveawayStorage,
+    KeywordGiveawayMessages,
+    PauseOptions,
+    QuestionGiveawayMessages,
+    RequirementRule,
+    ScheduledGiveaway,
+    ScheduledGiveawayEditOptions,
+    WinnerSelector,
+    WinnerSelectorCallback
 } from "./Constants";
 import { Giveaway } from "./Giveaway";
+import { JSONStorage } from "./Storage";
+import { MemoryLock } from "./Lock";
+import { CallbackSelector, FirstEntrantsSelector, LastEntrantsSelector, WeightedRandomSelector } from "./Selectors";
 import { RichEmbed, Util } from "./Util";
+import { WinnerHistory } from "./WinnerHistory";
 import merge from "deepmerge";
-import { access, readFile, writeFile } from "fs/promises";
-import serialize from "serialize-javascript";
 
 /**
  * Represents the main Giveaways manager class
  */
 export class GiveawaysManager extends EventEmitter {
+    /**
+     * The archive of the ended giveaways
+     * @type {GiveawayArchive}
+     */
+    archive: GiveawayArchive;
+
+    /**
+     * The blacklist of the users and roles which cannot enter nor win any giveaway of a guild
+     * @type {GiveawayBlacklist}
+     */
+    blacklist: GiveawayBlacklist;
+
+    /**
+     * The registered bonus rules, keyed by name
+     * @type {Map<String, BonusRule>}
+     */
+    bonusRules: Map<string, BonusRule>;
+
+    /**
+     * The interval which checks every giveaways
+     * @type {?NodeJS.Timeout}
+     * @ignore
+     */
+    private checkInterval: NodeJS.Timeout | null;
+
     /**
      * Eris Client
      * @type {Client}
      */
     client: Client;
 
+    /**
+     * The client listeners handling the reactions, the interactions and the text entries, keyed by event
+     * @type {Map<String, Function>}
+     * @ignore
+     */
+    private clientHandlers: Map<string, (...args: any[]) => void>;
+
+    /**
+     * The giveaways data which have changed since the last flush, keyed by message ID
+     * @type {Map<String, GiveawayData>}
+     * @ignore
+     */
+    private dirtyGiveaways: Map<string, GiveawayData>;
+
+    /**
+     * The registered exempt rules, keyed by name
+     * @type {Map<String, ExemptRule>}
+     */
+    exemptRules: Map<string, ExemptRule>;
+
+    /**
+     * The process listeners flushing the pending changes on exit, keyed by event
+     * @type {Map<String, Function>}
+     * @ignore
+     */
+    private exitHandlers: Map<string, () => void>;
+
+    /**
+     * The interval which flushes the changed giveaways into the storage
+     * @type {?NodeJS.Timeout}
+     * @ignore
+     */
+    private flushInterval: NodeJS.Timeout | null;
+
     /**
      * An array of Giveaways managed by the manager
      * @type {Array<Giveaway>}
      */
     giveaways: Giveaway[];
 
+    /**
+     * The initialization of the manager, `null` if it does not initialize automatically. It rejects if the stored giveaways cannot be loaded
+     * @type {?Promise<void>}
+     */
+    initialization: Promise<void> | null;
+
+    /**
+     * The lock ensuring two processes never end the same giveaway
+     * @type {GiveawayLock}
+     */
+    lock: GiveawayLock;
+
+    /**
+     * The built-in migrations upgrading older giveaway data, sorted by version
+     * @type {Array<GiveawayMigration>}
+     */
+    migrations: GiveawayMigration[];
+
     /**
      * The Giveaways manager options
      * @type {GiveawaysManagerOptions}
@@ -55,6 +160,42 @@ export class GiveawaysManager extends EventEmitter {
      */
     ready: boolean;
 
+    /**
+     * The registered requirement rules, keyed by name
+     * @type {Map<String, RequirementRule>}
+     */
+    requirementRules: Map<string, RequirementRule>;
+
+    /**
+     * The scheduler of the giveaways which start in the future
+     * @type {GiveawayScheduler}
+     */
+    scheduler: GiveawayScheduler;
+
+    /**
+     * The storage where the giveaways are persisted
+     * @type {GiveawayStorage}
+     */
+    storage: GiveawayStorage;
+
+    /**
+     * The registered migrations upgrading older giveaway data, sorted by version
+     * @type {Array<GiveawayMigration>}
+     */
+    userMigrations: GiveawayMigration[];
+
+    /**
+     * The index of the wins of every guild, used by the winner cooldowns
+     * @type {WinnerHistory}
+     */
+    winnerHistory: WinnerHistory;
+
+    /**
+     * The registered winner selectors, keyed by name. `weighted`, `first` and `last` are built in
+     * @type {Map<String, WinnerSelector>}
+     */
+    winnerSelectors: Map<string, WinnerSelector>;
+
     /**
      * Represents the main Giveaways manager class
      * @param client Eris Client
@@ -68,13 +209,56 @@ export class GiveawaysManager extends EventEmitter {
             throw new Error("Eris Client is required");
         }
 
+        this.bonusRules = new Map();
+        this.checkInterval = null;
         this.client = client;
+        this.clientHandlers = new Map();
+        this.dirtyGiveaways = new Map();
+        this.exemptRules = new Map();
+        this.exitHandlers = new Map();
+        this.flushInterval = null;
         this.giveaways = [];
-        this.options = merge(GiveawayManagerOptions, options || {});
+        this.migrations = [...GiveawayMigrations];
+        this.options = merge(GiveawayManagerOptions, options || {}, { isMergeableObject: Util.isMergeableObject });
+        this.lock = this.options.lock ?? new MemoryLock();
         this.ready = false;
+        this.requirementRules = new Map();
+        this.userMigrations = [];
+        this.archive = new GiveawayArchive(this);
+        this.blacklist = new GiveawayBlacklist(this);
+        this.scheduler = new GiveawayScheduler(this);
+        this.storage = typeof this.options.storage === "string" ? new JSONStorage(this.options.storage) : this.options.storage;
+        this.winnerHistory = new WinnerHistory();
+        this.winnerSelectors = new Map<string, WinnerSelector>([
+            ["weighted", new WeightedRandomSelector()],
+            ["first", new FirstEntrantsSelector()],
+            ["last", new LastEntrantsSelector()]
+        ]);
+
+        this.initialization = init ? this._init() : null;
+        this.initialization?.catch((err) => {
+            // Nothing may await the initialization, so its failure is reported either way
+            if (this.listenerCount("error")) this.emit("error", err);
+            else process.emitWarning(`The giveaways manager failed to initialize: ${err?.message ?? err}`, "GiveawayInitWarning");
+        });
+    }
 
-        if (init) {
-            this._init();
+    /**
+     * Moves an ended giveaway out of the manager into the archive, or deletes it if the archive is disabled
+     * @param giveaway The giveaway
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _archiveGiveaway(giveaway: Giveaway): Promise<void> {
+        if (this.options.archive.enabled) {
+            // Archive first, so a crash in between keeps the giveaway rather than losing it
+            await this.archive.add(giveaway.data);
+            await this.deleteGiveaway(giveaway.messageID);
+            this.giveaways = this.giveaways.filter((g) => g.messageID !== giveaway.messageID);
+            this.emit("giveawayArchived", giveaway);
+        } else {
+            await this.deleteGiveaway(giveaway.messageID);
+            this.giveaways = this.giveaways.filter((g) => g.messageID !== giveaway.messageID);
         }
     }
 
@@ -84,28 +268,43 @@ export class GiveawaysManager extends EventEmitter {
      * @ignore
     */
     private _checkGiveaway() {
+        this.scheduler.ensureStartTimeouts();
+
+        // The archive is read as a whole to be pruned, so its retention is applied hourly rather than on every check
+        if (this.options.archive.enabled && Number.isFinite(this.archive.lifetime) && (this.archive.prunedAt ?? 0) + 3_600_000 <= Date.now()) {
+            this.archive.prune().catch(() => { });
+        }
+
         if (this.giveaways.length <= 0) return;
 
-        this.giveaways.forEach(async (giveaway) => {
-            // If giveaway is ended, we should first check if it should be deleted from the database
+        // Giveaways of guilds hosted by another process are left to that process
+        this.giveaways.filter((g) => this.ownsGuild(g.guildID)).forEach(async (giveaway) => {
+            // If giveaway is ended, we should first check if it should be archived
             if (giveaway.ended) {
-                if (Number.isFinite(this.options.endedGiveawaysLifetime) && giveaway.endAt + this.options.endedGiveawaysLifetime <= Date.now()) {
-                    this.giveaways = this.giveaways.filter((g) => g.messageID === giveaway.messageID);
+                // Giveaways waiting for their winners to claim are not archived yet
+                if (giveaway.pendingClaims.length) return giveaway.expireClaims().catch(() => { });
 
-                    await this.deleteGiveaway(giveaway.messageID);
+                if (Number.isFinite(this.options.endedGiveawaysLifetime) && giveaway.endAt + this.options.endedGiveawaysLifetime <= Date.now()) {
+                    await this._archiveGiveaway(giveaway).catch(() => { });
                 }
 
                 return;
             }
 
-            // Check if giveaway is drop and has one reaction
+            // Check if giveaway is drop and has enough participants
             if (giveaway.isDrop) {
-                giveaway.message = await giveaway.fetchMessage().catch(() => { }) as Message<PossiblyUncachedTextableChannel>;
-
-                const reaction = giveaway.message.reactions[giveaway.reaction];
-
-                if (reaction.count - 1 >= giveaway.winnerCount) {
-                    return this.end(giveaway.messageID).catch(() => { });
+                if (giveaway.entryMode !== "reaction") {
+                    if (giveaway.participants.size >= giveaway.winnerCount) {
+                        return this.end(giveaway.messageID).catch(() => { });
+                    }
+                } else {
+                    giveaway.message = await giveaway.fetchMessage().catch(() => { }) as Message<PossiblyUncachedTextableChannel>;
+
+                    const reaction = giveaway.message?.reactions[giveaway.reaction];
+
+                    if (reaction && reaction.count - 1 >= giveaway.winnerCount) {
+                        return this.end(giveaway.messageID).catch(() => { });
+                    }
                 }
             }
 
@@ -158,7 +357,8 @@ export class GiveawaysManager extends EventEmitter {
             const updatedEmbed = this.generateMainEmbed(giveaway, lastChanceEnabled);
             const requireUpdate = !updatedEmbed.equals(giveaway.message.embeds[0]) || giveaway.message.content !== giveaway.fillInString(giveaway.messages.giveaway);
 
-            if (requireUpdate && this.options.forceUpdateEvery !== null) {
+            // The entry count of a capped giveaway is kept up to date even without forced updates
+            if (requireUpdate && (this.options.forceUpdateEvery !== null || giveaway.maxParticipants !== null)) {
                 giveaway.message = await giveaway.message.edit({
                     content: giveaway.fillInString(giveaway.messages.giveaway),
                     embed: updatedEmbed
@@ -167,6 +367,162 @@ export class GiveawaysManager extends EventEmitter {
         });
     }
 
+    /**
+     * Checks the start options of a giveaway, filling in the prize and the winner count of a tiered giveaway
+     * @param options The start options of the giveaway
+     * @returns {?String} Why the options are invalid, `null` if they are valid
+     * @ignore
+     */
+    private _checkStartOptions(options: GiveawayStartOptions): string | null {
+        if (!options || typeof options !== "object") return "`options` is not an object";
+
+        if (
+            options.prizes !== undefined &&
+            (!Array.isArray(options.prizes) || !options.prizes.length || options.prizes.some((tier) => typeof tier?.name !== "string" || !tier.name.trim() || !Number.isInteger(tier.count) || tier.count < 1))
+        ) return "`options.prizes` is not a non-empty array of prize tiers with a name and a positive count";
+
+        // A tiered giveaway draws the winners of every tier at once
+        if (options.prizes) {
+            const tierWinnerCount = options.prizes.reduce((count, tier) => count + tier.count, 0);
+
+            if (options.winnerCount !== undefined && options.winnerCount !== tierWinnerCount) return `\`options.winnerCount\` does not match the winner count of \`options.prizes\` (${tierWinnerCount})`;
+
+            options.prize ??= options.prizes.map((tier) => tier.name).join(", ");
+            options.winnerCount = tierWinnerCount;
+        }
+
+        if (typeof options.prize !== "string" || (options.prize = options.prize.trim()).length > 256) return "`options.prize` is not a string or longer than 256 characters";
+        if (!Number.isInteger(options.winnerCount) || options.winnerCount < 1) return "`options.winnerCount` is not a positive integer";
+        if (options.backupWinnerCount !== undefined && (!Number.isInteger(options.backupWinnerCount) || options.backupWinnerCount < 0)) return "`options.backupWinnerCount` is not a non-negative integer";
+        if (options.isDrop && typeof options.isDrop !== "boolean") return "`options.isDrop` is not a boolean";
+        if (!options.isDrop && (!Number.isFinite(options.duration) || options.duration < 1)) return "`options.duration` is not a positive number";
+        if (options.entryMode && !["reaction", "button", "text"].includes(options.entryMode)) return "`options.entryMode` is not one of \"reaction\", \"button\" or \"text\"";
+
+        if (options.entryMode === "text") {
+            if (!options.isDrop) return "`options.entryMode` \"text\" is only supported by drops";
+            if (options.verifiable) return "`options.verifiable` is not supported by text drops";
+            if (
+                !options.textDrop ||
+                (typeof options.textDrop.keyword === "string"
+                    ? !options.textDrop.keyword.trim()
+                    : typeof options.textDrop.question !== "string" || !(
+                        (Array.isArray(options.textDrop.answers) && options.textDrop.answers.some((answer) => typeof answer === "string" && answer.trim())) ||
+                        (Array.isArray(options.textDrop.answerHashes) && options.textDrop.answerHashes.some((hash) => typeof hash === "string" && hash))
+                    ))
+            ) return "`options.textDrop` has neither a keyword nor a question with accepted answers";
+        }
+
+        if (options.maxParticipants !== undefined && (!Number.isInteger(options.maxParticipants) || options.maxParticipants < 1)) return "`options.maxParticipants` is not a positive integer";
+        if (options.maxParticipantsMode && !["end", "close", "waitlist"].includes(options.maxParticipantsMode)) return "`options.maxParticipantsMode` is not one of \"end\", \"close\" or \"waitlist\"";
+        if (options.verifiable && typeof options.verifiable !== "boolean") return "`options.verifiable` is not a boolean";
+        // A verifiable giveaway always draws from its seed, which no other selector could reproduce
+        if (options.verifiable && options.winnerSelector !== undefined && options.winnerSelector !== "weighted") return "`options.winnerSelector` is not supported by verifiable giveaways";
+        if (options.claim?.enabled && options.claim.duration !== undefined && !(options.claim.duration > 0)) return "`options.claim.duration` is not a positive number";
+        if (options.claim?.method && !["message", "dm"].includes(options.claim.method)) return "`options.claim.method` is neither \"message\" nor \"dm\"";
+        if (options.winnerCooldown && !(options.winnerCooldown.duration > 0)) return "`options.winnerCooldown.duration` is not a positive number";
+
+        const missingRules = this.getMissingRules(options);
+
+        if (missingRules.length) return `\`options\` references unregistered ${missingRules.join(", ")}`;
+
+        return null;
+    }
+
+    /**
+     * Handle the clicks on the claim button of the ended giveaways
+     * @param interaction The Eris interaction
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _handleClaim(interaction: ComponentInteraction): Promise<void> {
+        const giveaway = this.giveaways.find((g) => g.messageID === interaction.data.custom_id.split(":")[1]);
+        const user = interaction.member?.user ?? interaction.user;
+
+        if (!giveaway || !user) return;
+
+        const messages = giveaway.messages;
+
+        const reply = async (content: string): Promise<void> => {
+            await interaction.editOriginalMessage({ content: giveaway.fillInString(content) }).catch(() => { });
+        };
+
+        // The click is acknowledged before the claim is persisted, as the interaction must be answered within 3 seconds
+        await interaction.defer(64).catch(() => { });
+
+        if (await giveaway.claimPrize(user.id)) return reply(messages.prizeClaimed);
+
+        const claim = giveaway.claims.find((c) => c.userID === user.id);
+
+        if (claim?.claimedAt) return reply(messages.prizeClaimed);
+
+        return reply(claim?.expiredAt ? messages.claimExpired : messages.notAWinner);
+    }
+
+    /**
+     * Handle the clicks on the entry button of the giveaways. A click enters the member, or makes them leave if they had entered already
+     * @param interaction The Eris interaction
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _handleInteraction(interaction: Interaction): Promise<void> {
+        if (!(interaction instanceof ComponentInteraction)) return;
+        if (interaction.data.custom_id.startsWith(`${ComponentIDs.CLAIM_BUTTON}:`)) return this._handleClaim(interaction);
+        if (interaction.data.custom_id !== ComponentIDs.ENTRY_BUTTON) return;
+
+        const giveaway = this.giveaways.find((g) => g.messageID === interaction.message.id);
+        const member = interaction.member;
+
+        if (!giveaway || !member) return;
+
+        const reply = (content: string, variables = {}) =>
+            interaction.createMessage({ content: giveaway.fillInString(content, variables), flags: 64 }).catch(() => { });
+
+        if (giveaway.ended) return reply(giveaway.messages.entryClosed);
+
+        // The click is answered before the giveaway is persisted, as the interaction must be answered within 3 seconds
+        if (giveaway.participants.has(member.id) || giveaway.waitlist.includes(member.id)) {
+            giveaway.removeParticipant(member.id);
+            this.emit("giveawayLeft", giveaway, member);
+            await reply(giveaway.messages.left);
+
+            return this.editGiveaway(giveaway.messageID, giveaway.data).catch(() => { });
+        }
+
+        const rejectionReason = await giveaway.checkRequirements(member).catch(() => giveaway.messages.requirementNotMet);
+
+        if (rejectionReason !== null) {
+            this.emit("giveawayEntryRejected", giveaway, member, rejectionReason);
+            return reply(giveaway.messages.entryRejected, { reason: rejectionReason });
+        }
+
+        const entryStatus = giveaway.addParticipant(member.id);
+
+        if (entryStatus === "full") {
+            const reason = giveaway.messages.entriesFull;
+
+            this.emit("giveawayEntryRejected", giveaway, member, reason);
+            return reply(giveaway.messages.entryRejected, { reason });
+        }
+
+        if (entryStatus === "waitlisted") {
+            this.emit("giveawayWaitlisted", giveaway, member);
+            await reply(giveaway.messages.waitlisted);
+
+            return this.editGiveaway(giveaway.messageID, giveaway.data).catch(() => { });
+        }
+
+        this.emit("giveawayEntered", giveaway, member);
+        await reply(giveaway.messages.entered);
+        await this.editGiveaway(giveaway.messageID, giveaway.data).catch(() => { });
+
+        if (
+            ((giveaway.isDrop && giveaway.participants.size >= giveaway.winnerCount) || (giveaway.isFull && giveaway.maxParticipantsMode === "end")) &&
+            this.ownsGuild(giveaway.guildID)
+        ) {
+            this.end(giveaway.messageID).catch(() => { });
+        }
+    }
+
     /**
      * Handle Discord raw gateway events
      * @param packet Discord's Gateway payload packet
@@ -181,6 +537,11 @@ export class GiveawaysManager extends EventEmitter {
         if (!giveaway) return;
         if (giveaway.ended && packet.t === "MESSAGE_REACTION_REMOVE") return;
 
+        const rawEmoji = Util.resolvePartialEmoji(giveaway.reaction);
+
+        if ((rawEmoji as { animated: boolean; name: string; id: string })?.name !== (packet.d as any).emoji.name) return;
+        if (rawEmoji?.id && rawEmoji?.id !== (packet.d as any).emoji.id) return;
+
         const guild = this.client.guilds.get((packet.d as any).guild_id);
 
         if (!guild) return;
@@ -189,6 +550,38 @@ export class GiveawaysManager extends EventEmitter {
 
         if (!member) return;
 
+        // Keep the participant ledger up to date, so rolling does not need to page through the reactions
+        if (!giveaway.ended && giveaway.entryMode === "reaction" && member.id !== this.client.user.id) {
+            if (packet.t === "MESSAGE_REACTION_ADD") {
+                let rejectionReason = await giveaway.checkRequirements(member).catch(() => giveaway.messages.requirementNotMet);
+                const entryStatus = rejectionReason === null ? giveaway.addParticipant(member.id) : null;
+
+                if (entryStatus === "full") rejectionReason = giveaway.messages.entriesFull;
+
+                if (rejectionReason !== null) {
+                    const emoji = (packet.d as any).emoji;
+
+                    this.client.removeMessageReaction(giveaway.channelID, giveaway.messageID, emoji.id ? `${emoji.name}:${emoji.id}` : emoji.name, member.id).catch(() => { });
+                    this.emit("giveawayEntryRejected", giveaway, member, rejectionReason);
+
+                    member.user.getDMChannel().then((channel) => channel.createMessage(
+                        giveaway.fillInString(giveaway.messages.entryRejected, { reason: rejectionReason })
+                    )).catch(() => { });
+                    return;
+                }
+
+                if (entryStatus === "waitlisted") this.emit("giveawayWaitlisted", giveaway, member);
+            } else {
+                giveaway.removeParticipant(member.id);
+            }
+
+            await this.editGiveaway(giveaway.messageID, giveaway.data);
+
+            if (giveaway.isFull && giveaway.maxParticipantsMode === "end" && this.ownsGuild(giveaway.guildID)) {
+                this.end(giveaway.messageID).catch(() => { });
+            }
+        }
+
         const channel = this.client.getChannel((packet.d as any).channel_id) || guild.channels.get((packet.d as any).channel_id);
 
         if (!channel) return;
@@ -197,19 +590,16 @@ export class GiveawaysManager extends EventEmitter {
 
         if (!message) return;
 
-        const rawEmoji = Util.resolvePartialEmoji(giveaway.reaction);
         const reaction = message.reactions[giveaway.reaction];
 
         if (!reaction) return;
-        if ((rawEmoji as { animated: boolean; name: string; id: string })?.name !== (packet.d as any).emoji.name) return;
-        if (rawEmoji?.id && rawEmoji?.id !== (packet.d as any).emoji.id) return;
 
         if (packet.t === "MESSAGE_REACTION_ADD") {
             if (giveaway.ended) return this.emit("endedGiveawayReactionAdded", giveaway, member, reaction, rawEmoji);
 
             this.emit("giveawayReactionAdded", giveaway, member, reaction, rawEmoji, message);
 
-            if (giveaway.isDrop && reaction.count - 1 >= giveaway.winnerCount) {
+            if (giveaway.isDrop && reaction.count - 1 >= giveaway.winnerCount && this.ownsGuild(giveaway.guildID)) {
                 this.end(giveaway.messageID).catch(() => { });
             }
         } else {
@@ -217,35 +607,262 @@ export class GiveawaysManager extends EventEmitter {
         }
     }
 
+    /**
+     * Handle the messages sent in the channels of the text drops. The first members to send the keyword or an accepted answer enter,
+     * and the drop ends once enough of them have
+     * @param message The Eris message
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _handleTextEntry(message: Message<PossiblyUncachedTextableChannel>): Promise<void> {
+        const giveaway = this.giveaways.find((g) => !g.ended && g.entryMode === "text" && g.channelID === message.channel.id);
+        const member = message.member;
+
+        if (!giveaway || !member || member.id === this.client.user.id) return;
+        // A bot entering would take the spot of a member without being able to win
+        if (member.bot && !giveaway.botsCanWin) return;
+        if (giveaway.participants.has(member.id) || !giveaway.matchesTextDrop(message.content)) return;
+
+        const rejectionReason = await giveaway.checkRequirements(member).catch(() => giveaway.messages.requirementNotMet);
+
+        if (rejectionReason !== null) {
+            this.emit("giveawayEntryRejected", giveaway, member, rejectionReason);
+            return;
+        }
+
+        // Entering a text drop wins it, so the member must be able to win: not on a winner cooldown, exempted or out of the claims
+        if (!(await giveaway.checkWinnerEntry(member.user).catch(() => false))) {
+            this.emit("giveawayEntryRejected", giveaway, member, giveaway.messages.requirementNotMet);
+            return;
+        }
+
+        if (giveaway.ended || giveaway.addParticipant(member.id) !== "entered") return;
+
+        await this.editGiveaway(giveaway.messageID, giveaway.data);
+        this.emit("giveawayEntered", giveaway, member);
+
+        if (giveaway.participants.size >= giveaway.winnerCount && this.ownsGuild(giveaway.guildID)) {
+            this.end(giveaway.messageID).catch(() => { });
+        }
+    }
+
+    /**
+     * Replaces the accepted answers of a text drop with their hashes, so the answers are never persisted
+     * @param options The start options of the giveaway
+     * @returns {GiveawayStartOptions}
+     * @ignore
+     */
+    private _hashTextDropAnswers(options: GiveawayStartOptions): GiveawayStartOptions {
+        if (!Array.isArray(options.textDrop?.answers)) return options;
+
+        const { answers, ...textDrop } = options.textDrop;
+
+        return {
+            ...options,
+            textDrop: {
+                ...textDrop,
+                answerHashes: [
+                    ...answers.filter((answer) => typeof answer === "string" && answer.trim()).map((answer) => Giveaway.hashAnswer(answer, textDrop.caseSensitive)),
+                    ...textDrop.answerHashes ?? []
+                ]
+            }
+        };
+    }
+
     /**
      * Initialize the Giveaway manager
      * @return {Promise<void>}
      * @ignore
      */
     private async _init(): Promise<void> {
-        const rawGiveaways = await this.getAllGiveaways();
+        const rawGiveaways = (await this.getAllGiveaways()).map((giveaway) => {
+            const migratedGiveaway = this.migrateGiveaway(giveaway);
+
+            if (migratedGiveaway === giveaway) return giveaway;
+
+            this.dirtyGiveaways.set(migratedGiveaway.messageID, migratedGiveaway);
+            return migratedGiveaway;
+        });
+
+        // Writes the migrated giveaways back once
+        await this.flush();
+        await this.blacklist.load();
+        await this.scheduler.load();
+
+        for (const giveaway of rawGiveaways) {
+            const missingRules = this.getMissingRules(giveaway);
+
+            if (missingRules.length) {
+                throw new Error(`Giveaway Message ID: ${giveaway.messageID} references unregistered ${missingRules.join(", ")}`);
+            }
+        }
 
         await (this.client.ready ? Promise.resolve() : new Promise((resolve) => this.client.once("ready", resolve)));
 
-        rawGiveaways.forEach((giveaway) => this.giveaways.push(new Giveaway(this, giveaway)));
+        // The JSON file is cached and the memory lock is kept by this process only, so other processes would end the same giveaways
+        if (this.sharded && this.storage instanceof JSONStorage && this.lock instanceof MemoryLock) {
+            process.emitWarning(
+                "The manager hosts only part of the shards, but the default JSON storage and memory lock cannot be shared with other processes. Use a shared storage and lock",
+                "GiveawayShardingWarning"
+            );
+        }
 
-        setInterval(() => {
+        rawGiveaways.forEach((giveaway) => {
+            this.giveaways.push(new Giveaway(this, giveaway));
+            this.winnerHistory.add(giveaway);
+        });
+
+        this.checkInterval = setInterval(() => {
             if (this.client.startTime) this._checkGiveaway.call(this);
         }, this.options.forceUpdateEvery || 15_000);
 
+        if (this.batchesWrites) {
+            // Failed flushes keep their giveaways dirty, so they are retried on the next interval
+            this.flushInterval = setInterval(() => this.flush().catch(() => { }), this.options.flushEvery);
+        }
+
+        if (this.options.flushOnExit) {
+            this.exitHandlers.set("beforeExit", () => this.flush().catch(() => { }));
+
+            for (const signal of ["SIGINT", "SIGTERM"] as const) {
+                this.exitHandlers.set(signal, async () => {
+                    await this.flush().catch(() => { });
+
+                    // Keep the default behaviour of the signal unless someone else listens to it
+                    if (!process.listenerCount(signal)) process.kill(process.pid, signal);
+                });
+            }
+
+            // The handlers are kept, so `destroy()` can remove them
+            for (const [event, handler] of this.exitHandlers) process.once(event, handler);
+        }
+
         this.ready = true;
 
-        if (Number.isFinite(this.options.endedGiveawaysLifetime)) {
-            const endedGiveaways = this.giveaways.filter((g) => g.ended && g.endAt + this.options.endedGiveawaysLifetime <= Date.now());
+        this._syncParticipants();
 
-            this.giveaways = this.giveaways.filter((g) => !endedGiveaways.map((giveaway) => giveaway.messageID).includes(g.messageID));
+        if (Number.isFinite(this.options.endedGiveawaysLifetime)) {
+            const endedGiveaways = this.giveaways.filter((g) => g.ended && this.ownsGuild(g.guildID) && g.endAt + this.options.endedGiveawaysLifetime <= Date.now());
 
+            // A giveaway which cannot be archived yet is kept, and tried again by the next check
             for (const giveaway of endedGiveaways) {
-                await this.deleteGiveaway(giveaway.messageID);
+                await this._archiveGiveaway(giveaway).catch(() => { });
             }
         }
 
-        this.client.on("rawWS", (packet) => this._handleRawPacket(packet));
+        if (this.options.archive.enabled) {
+            await this.archive.prune();
+
+            // Archived giveaways still count towards the winner cooldowns
+            (await this.archive.find()).forEach((giveaway) => this.winnerHistory.add(giveaway));
+        }
+
+        this.clientHandlers.set("rawWS", (packet) => this._handleRawPacket(packet));
+        this.clientHandlers.set("interactionCreate", (interaction) => this._handleInteraction(interaction));
+        this.clientHandlers.set("messageCreate", (message) => this._handleTextEntry(message));
+
+        // The handlers are kept, so `destroy()` can remove them
+        for (const [event, handler] of this.clientHandlers) this.client.on(event, handler);
+
+        // Giveaways which were due while the process was down start right away
+        this.scheduler.ensureStartTimeouts();
+    }
+
+    /**
+     * Posts the message of a giveaway, with its reaction or its entry button
+     * @param channel The channel of the giveaway
+     * @param giveaway The giveaway
+     * @returns {Promise<Message>}
+     * @ignore
+     */
+    private async _postGiveaway(channel: GuildTextableChannel, giveaway: Giveaway): Promise<Message> {
+        const message = await channel.createMessage({
+            content: giveaway.fillInString(giveaway.messages.giveaway),
+            embed: this.generateMainEmbed(giveaway),
+            components: this.generateEntryComponents(giveaway)
+        });
+
+        giveaway.message = message;
+        giveaway.messageID = message.id;
+        giveaway.participantsSynced = true;
+
+        if (giveaway.entryMode === "reaction") await message.addReaction(giveaway.reaction);
+
+        return message;
+    }
+
+    /**
+     * Catches up on the reactions added or removed while the manager was not running, with a single paged fetch per giveaway
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _syncParticipants(): Promise<void> {
+        const giveaways = this.giveaways.filter((g) => !g.ended && g.entryMode === "reaction" && this.ownsGuild(g.guildID));
+
+        for (const giveaway of giveaways) {
+            // A draw may have synced the giveaway already while the previous ones were synced
+            if (!giveaway.participantsSynced) await giveaway.syncParticipants().catch(() => { });
+
+            // The reactions added while the manager was down may have filled the giveaway
+            if (!giveaway.ended && giveaway.isFull && giveaway.maxParticipantsMode === "end") this.end(giveaway.messageID).catch(() => { });
+        }
+    }
+
+    /**
+     * Whether edits are batched and flushed on an interval instead of being written immediately
+     * @type {Boolean}
+     */
+    get batchesWrites(): boolean {
+        return Number.isFinite(this.options.flushEvery) && this.options.flushEvery > 0;
+    }
+
+    /**
+     * The current schema version of the giveaway data, reached by the built-in migrations
+     * @type {Number}
+     */
+    get schemaVersion(): number {
+        return Math.max(0, ...this.migrations.map((migration) => migration.version));
+    }
+
+    /**
+     * Whether this process hosts only part of the shards, so other processes drive the giveaways of the remaining guilds
+     * @type {Boolean}
+     */
+    get sharded(): boolean {
+        const shardCount = (this.options.sharding.shardCount ?? this.client.options.maxShards) as number;
+
+        if (!Number.isInteger(shardCount) || shardCount <= 1) return false;
+        if (Array.isArray(this.options.sharding.shardIDs)) return this.options.sharding.shardIDs.length < shardCount;
+
+        return (this.client.options.firstShardID ?? 0) > 0 || (this.client.options.lastShardID ?? shardCount - 1) < shardCount - 1;
+    }
+
+    /**
+     * The current version of the giveaway data reached by the registered migrations, counted apart from the built-in ones
+     * @type {Number}
+     */
+    get userSchemaVersion(): number {
+        return Math.max(0, ...this.userMigrations.map((migration) => migration.version));
+    }
+
+    /**
+     * Cancels a scheduled giveaway before it starts
+     * @param id The ID of the scheduled giveaway
+     * @returns {Promise<ScheduledGiveaway>}
+     */
+    cancelScheduledGiveaway(id: string): Promise<ScheduledGiveaway> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const scheduledGiveaway = await this.scheduler.remove(id);
+
+                if (!scheduledGiveaway) return reject(`No scheduled Giveaway found with ID ${id}`);
+
+                this.emit("giveawayScheduleCancelled", scheduledGiveaway);
+                resolve(scheduledGiveaway);
+            } catch (err) {
+                reject(err);
+            }
+        });
     }
 
     /**
@@ -266,6 +883,7 @@ export class GiveawaysManager extends EventEmitter {
             }
 
             this.giveaways = this.giveaways.filter((g) => g.messageID !== messageID);
+            this.winnerHistory.remove(messageID);
 
             await this.deleteGiveaway(messageID);
 
@@ -280,15 +898,32 @@ export class GiveawaysManager extends EventEmitter {
      * @returns {Promise<any>}
      */
     async deleteGiveaway(messageID: string): Promise<any> {
-        await writeFile(
-            this.options.storage,
-            JSON.stringify(
-                this.giveaways.map((giveaway) => giveaway.data),
-                (_, v) => (typeof v === "bigint" ? serialize(v) : v)
-            ),
-            "utf-8"
-        );
-        return;
+        this.dirtyGiveaways.delete(messageID);
+
+        return this.storage.deleteGiveaway(messageID);
+    }
+
+    /**
+     * Stops checking the giveaways and starting the scheduled ones, stops listening to the client and flushes every pending change into the storage
+     * @returns {Promise<void>}
+     */
+    async destroy(): Promise<void> {
+        clearInterval(this.checkInterval);
+        clearInterval(this.flushInterval);
+
+        this.checkInterval = null;
+        this.flushInterval = null;
+        this.ready = false;
+
+        for (const [event, handler] of this.exitHandlers) process.off(event, handler);
+        this.exitHandlers.clear();
+
+        for (const [event, handler] of this.clientHandlers) this.client.off(event, handler);
+        this.clientHandlers.clear();
+
+        this.scheduler.clearStartTimeouts();
+
+        await this.flush();
     }
 
     edit(messageID: string, options: GiveawayEditOptions = {}) {
@@ -303,21 +938,51 @@ export class GiveawaysManager extends EventEmitter {
     }
 
     /**
-     * Edits a giveaway found in the database. See `GiveawaysManager#edit()` for client usage
+     * Edits a giveaway found in the database. See `GiveawaysManager#edit()` for client usage.
+     * When `flushEvery` is set, the giveaway is only marked as dirty and written on the next flush
      * @param messageID The ID of the giveaway message
      * @param giveawayData The giveaway data
      * @returns {Promise<any>}
      */
     async editGiveaway(messageID: string, giveawayData: GiveawayData): Promise<any> {
-        await writeFile(
-            this.options.storage,
-            JSON.stringify(
-                this.giveaways.map((giveaway) => giveaway.data),
-                (_, v) => (typeof v === "bigint" ? serialize(v) : v)
-            ),
-            "utf-8"
-        );
-        return;
+        this.winnerHistory.add(giveawayData);
+
+        if (!this.batchesWrites) return this.storage.editGiveaway(messageID, giveawayData);
+
+        this.dirtyGiveaways.set(messageID, giveawayData);
+    }
+
+    /**
+     * Edits a scheduled giveaway before it starts. The new options are merged into its start options and checked again
+     * @param id The ID of the scheduled giveaway
+     * @param options The edit options
+     * @returns {Promise<ScheduledGiveaway>}
+     */
+    editScheduledGiveaway(id: string, options: ScheduledGiveawayEditOptions = {}): Promise<ScheduledGiveaway> {
+        return new Promise(async (resolve, reject) => {
+            const scheduledGiveaway = this.scheduler.get(id);
+
+            if (!scheduledGiveaway) return reject(`No scheduled Giveaway found with ID ${id}`);
+            if (options.newStartAt !== undefined && (!Number.isFinite(options.newStartAt) || options.newStartAt <= Date.now())) return reject("`options.newStartAt` is not a timestamp in the future");
+
+            const startOptions = { ...scheduledGiveaway.options, ...options.newOptions };
+            const invalidOption = this._checkStartOptions(startOptions);
+
+            if (invalidOption) return reject(invalidOption);
+
+            try {
+                const editedGiveaway = await this.scheduler.update({
+                    ...scheduledGiveaway,
+                    startAt: options.newStartAt ?? scheduledGiveaway.startAt,
+                    options: { ...this._hashTextDropAnswers(startOptions), hostedBy: startOptions.hostedBy ? startOptions.hostedBy.toString() : undefined }
+                });
+
+                this.emit("giveawayScheduleEdited", scheduledGiveaway, editedGiveaway);
+                resolve(editedGiveaway);
+            } catch (err) {
+                reject(err);
+            }
+        });
     }
 
     /**
@@ -332,13 +997,135 @@ export class GiveawaysManager extends EventEmitter {
 
             if (!giveaway) return reject(`No Giveaway found with message ID ${messageID}`);
 
-            giveaway.end(noWinnerMessage).then((winners) => {
+            const lockKey = `end:${messageID}`;
+
+            if (!await this.lock.acquire(lockKey, this.options.lockDuration).catch(() => false)) {
+                return reject(`Giveaway with Message ID ${messageID} is already being ended`);
+            }
+
+            try {
+                // Another process may have ended the giveaway since it was loaded, as long as the storage is shared between processes
+                const storedGiveaway = await this.storage.getGiveaway?.(messageID);
+
+                if (storedGiveaway?.ended && !giveaway.ended) {
+                    giveaway.ended = true;
+                    giveaway.endAt = storedGiveaway.endAt;
+                    giveaway.winnerIDs = storedGiveaway.winnerIDs ?? [];
+                    giveaway.winnerTiers = storedGiveaway.winnerTiers ?? {};
+
+                    return reject(`Giveaway with Message ID ${messageID} has already ended`);
+                }
+
+                const winners = await giveaway.end(noWinnerMessage);
+
+                // Winners must be persisted right away, otherwise a restart would end the giveaway twice
+                await this.flush().catch(() => { });
+
                 this.emit("giveawayEnded", giveaway, winners);
                 resolve(winners);
-            }).catch(reject);
+            } catch (err) {
+                reject(err);
+            } finally {
+                await this.lock.release(lockKey).catch(() => { });
+            }
         });
     }
 
+    /**
+     * Exports the active, ended and archived giveaways of a guild
+     * @param guildID The ID of the guild
+     * @param format The export format. Only JSON exports can be imported back
+     * @returns {Promise<String>}
+     */
+    async exportGuild(guildID: string, format: "json" | "csv" = "json"): Promise<string> {
+        if (!["json", "csv"].includes(format)) throw new Error(`Unknown export format ${format}`);
+
+        const giveaways: GiveawayExportData[] = [];
+
+        for (const giveaway of this.giveaways.filter((g) => g.guildID === guildID)) {
+            giveaways.push({ ...Giveaway.redactSecrets(giveaway.data), entryCount: giveaway.participants.size });
+        }
+
+        if (this.options.archive.enabled) {
+            giveaways.push(...(await this.archive.find({ guildID })).map((giveaway) => ({ ...Giveaway.redactSecrets(giveaway), entryCount: giveaway.participants?.length ?? 0 })));
+        }
+
+        if (format === "csv") {
+            return Util.formatCSV([
+                ["messageID", "channelID", "prize", "hostedBy", "startAt", "endAt", "ended", "winnerCount", "winnerIDs", "entryCount"],
+                ...giveaways.map((giveaway) => [
+                    giveaway.messageID,
+                    giveaway.channelID,
+                    giveaway.prize,
+                    giveaway.hostedBy,
+                    new Date(giveaway.startAt).toISOString(),
+                    Number.isFinite(giveaway.endAt) ? new Date(giveaway.endAt).toISOString() : null,
+                    !!giveaway.ended,
+                    giveaway.winnerCount,
+                    giveaway.winnerIDs?.join(" "),
+                    giveaway.entryCount
+                ])
+            ]);
+        }
+
+        const guildExport: GiveawayExport = {
+            guildID,
+            exportedAt: Date.now(),
+            schemaVersion: this.schemaVersion,
+            userSchemaVersion: this.userSchemaVersion || undefined,
+            giveaways
+        };
+
+        return JSON.stringify(guildExport);
+    }
+
+    /**
+     * Writes every giveaway changed since the last flush into the storage in a single batch
+     * @returns {Promise<void>}
+     */
+    async flush(): Promise<void> {
+        if (!this.dirtyGiveaways.size) return;
+
+        const giveaways = [...this.dirtyGiveaways.values()];
+
+        this.dirtyGiveaways.clear();
+
+        try {
+            if (typeof this.storage.editGiveaways === "function") {
+                await this.storage.editGiveaways(giveaways);
+            } else {
+                await Promise.all(giveaways.map((giveaway) => this.storage.editGiveaway(giveaway.messageID, giveaway)));
+            }
+        } catch (err) {
+            for (const giveaway of giveaways) {
+                if (!this.dirtyGiveaways.has(giveaway.messageID)) this.dirtyGiveaways.set(giveaway.messageID, giveaway);
+            }
+
+            throw err;
+        }
+    }
+
+    /**
+     * Generate the claim button of an ended giveaway, while some of its winners have not claimed their prize
+     * @param giveaway The giveaway
+     * @param direct Whether the button is sent to the winners by DM rather than on the giveaway message
+     * @returns {Array<ActionRow>}
+     */
+    generateClaimComponents(giveaway: Giveaway, direct = false): ActionRow[] {
+        if (!giveaway.claimOptions.enabled || !giveaway.pendingClaims.length) return [];
+        if (giveaway.claimOptions.method !== (direct ? "dm" : "message")) return [];
+
+        return [{
+            type: Constants.ComponentTypes.ACTION_ROW,
+            components: [{
+                type: Constants.ComponentTypes.BUTTON,
+                style: Constants.ButtonStyles.SUCCESS,
+                custom_id: `${ComponentIDs.CLAIM_BUTTON}:${giveaway.messageID}`,
+                label: giveaway.fillInString(giveaway.messages.claimButton)
+            }]
+        }];
+    }
+
     /**
      * Generate an end embed when a giveaway has ended
      * @param giveaway The giveaway
@@ -346,18 +1133,38 @@ export class GiveawaysManager extends EventEmitter {
      * @returns {RichEmbed}
      */
     generateEndEmbed(giveaway: Giveaway, winners: Member[]): RichEmbed {
-        let formattedWinners = winners.map((w) => `<@${w.id}>`).join(", ");
+        const claimedIDs = giveaway.claims.filter((claim) => claim.claimedAt).map((claim) => claim.userID);
+        const claimDeadline = Math.min(...giveaway.pendingClaims.map((claim) => claim.deadline));
+        const formatWinner = (id: string) => `<@${id}>` + (claimedIDs.includes(id) ? " ✅" : "");
+        let formattedWinners = winners.map((w) => formatWinner(w.id)).join(", ");
 
         const strings = {
             winners: giveaway.fillInString(giveaway.messages.winners),
             hostedBy: giveaway.fillInString(giveaway.messages.hostedBy),
             endedAt: giveaway.fillInString(giveaway.messages.endedAt),
             prize: giveaway.fillInString(giveaway.prize),
-            title: giveaway.fillInString(giveaway.messages.title)
+            title: giveaway.fillInString(giveaway.messages.title),
+            backupWinners: giveaway.options.showBackupWinners && giveaway.backupWinnerIDs.length
+                ? giveaway.fillInString(giveaway.messages.backupWinners, { winners: giveaway.backupWinnerIDs.map((id) => `<@${id}>`).join(", ") })
+                : null,
+            claimDeadline: Number.isFinite(claimDeadline)
+                ? giveaway.fillInString(giveaway.messages.claimDeadline, { claimDeadline })
+                : null,
+            seed: giveaway.verification?.revealedAt
+                ? giveaway.fillInString(giveaway.messages.drawSeed, { seed: giveaway.verification.seed })
+                : null
         };
 
+        // A tiered giveaway lists the winners of every tier, falling back to a single list when it does not fit
+        const tiers = giveaway.tiers.map((tier) => giveaway.fillInString(giveaway.messages.tierWinners, {
+            tier,
+            winners: tier.winnerIDs.length ? tier.winnerIDs.map(formatWinner).join(", ") : "-"
+        })).join("\n");
+
         const descriptionString = (formattedWinners: string) =>
-            strings.winners + " " + formattedWinners + (giveaway.hostedBy ? "\n" + strings.hostedBy : "");
+            (tiers && tiers.length <= 3500 ? tiers : strings.winners + " " + formattedWinners) + (giveaway.hostedBy ? "\n" + strings.hostedBy : "") +
+            (strings.backupWinners && strings.backupWinners.length <= 1000 ? "\n" + strings.backupWinners : "") +
+            (strings.claimDeadline ? "\n" + strings.claimDeadline : "");
 
         for (
             let i = 1;
@@ -372,12 +1179,34 @@ export class GiveawaysManager extends EventEmitter {
             .setTitle(strings.title || strings.prize)
             .setDescription(descriptionString(formattedWinners))
             .setColor(giveaway.embedColorEnd)
-            .setFooter(strings.endedAt, (giveaway.messages.embedFooter as { text?: string; iconURL?: string }).iconURL)
+            .setFooter(strings.seed ? `${strings.endedAt} • ${strings.seed}` : strings.endedAt, (giveaway.messages.embedFooter as { text?: string; iconURL?: string }).iconURL)
             .setTimestamp(giveaway.endAt)
             .setThumbnail(giveaway.thumbnail)
             .setImage(giveaway.image);
     }
 
+    /**
+     * Generate the components of a giveaway message, that is the entry button in button mode
+     * @param giveaway The giveaway
+     * @returns {Array<ActionRow>}
+     */
+    generateEntryComponents(giveaway: Giveaway): ActionRow[] {
+        if (giveaway.entryMode !== "button") return [];
+
+        const emoji = Util.resolvePartialEmoji(giveaway.reaction);
+
+        return [{
+            type: Constants.ComponentTypes.ACTION_ROW,
+            components: [{
+                type: Constants.ComponentTypes.BUTTON,
+                style: Constants.ButtonStyles.PRIMARY,
+                custom_id: ComponentIDs.ENTRY_BUTTON,
+                label: giveaway.fillInString(giveaway.messages.enterButton) ?? undefined,
+                emoji: emoji ?? undefined
+            }]
+        }];
+    }
+
     /**
      * generate an invalid embed when a giveaway has ended with not participants
      * @param giveaway The giveaway
@@ -403,10 +1232,14 @@ export class GiveawaysManager extends EventEmitter {
      * @returns {RichEmbed}
      */
     generateMainEmbed(giveaway: Giveaway, lastChanceEnabled = false): RichEmbed {
+        const footerText = typeof giveaway.messages.embedFooter === "object" ? giveaway.messages.embedFooter.text : giveaway.messages.embedFooter;
+        const commitment = giveaway.verification
+            ? giveaway.fillInString(giveaway.messages.drawCommitment, { commitment: giveaway.verification.commitment })
+            : null;
         const embed = new RichEmbed()
             .setTitle(giveaway.messages.title || giveaway.prize)
             .setColor(giveaway.isDrop ? giveaway.embedColor : giveaway.pauseOptions.isPaused && giveaway.pauseOptions.embedColor ? giveaway.pauseOptions.embedColor : lastChanceEnabled ? giveaway.lastChance.embedColor : giveaway.embedColor)
-            .setFooter(typeof giveaway.messages.embedFooter === "object" ? giveaway.messages.embedFooter.text : giveaway.messages.embedFooter, typeof giveaway.messages.embedFooter === "object" ? giveaway.messages.embedFooter.iconURL : undefined)
+            .setFooter(commitment ? [footerText, commitment].filter(Boolean).join(" • ") : footerText, typeof giveaway.messages.embedFooter === "object" ? giveaway.messages.embedFooter.iconURL : undefined)
             .setDescription(
                 giveaway.isDrop
                     ? giveaway.messages.dropMessage
@@ -423,7 +1256,8 @@ export class GiveawaysManager extends EventEmitter {
                             ? giveaway.pauseOptions.infiniteDurationText
                             : `<t:${Math.round(giveaway.endAt / 1000)}:R>`
                     ) +
-                    (giveaway.hostedBy ? "\n" + giveaway.messages.hostedBy : "")
+                    (giveaway.hostedBy ? "\n" + giveaway.messages.hostedBy : "") +
+                    (giveaway.maxParticipants !== null ? "\n" + giveaway.messages.participantCount : "")
             )
             .setThumbnail(giveaway.thumbnail)
             .setImage(giveaway.image);
@@ -434,7 +1268,14 @@ export class GiveawaysManager extends EventEmitter {
             delete embed.timestamp;
         }
 
-        return giveaway.fillInEmbed(embed);
+        const filledEmbed = giveaway.fillInEmbed(embed);
+
+        // The prize tiers are rendered once the description is filled in, so the tier names are not parsed as placeholders again
+        if (!giveaway.isDrop && giveaway.prizes.length) {
+            filledEmbed.setDescription(filledEmbed.description + "\n\n" + giveaway.prizes.map((tier) => giveaway.fillInString(giveaway.messages.prizeTier, { tier })).join("\n"));
+        }
+
+        return filledEmbed;
     }
 
     /**
@@ -442,36 +1283,160 @@ export class GiveawaysManager extends EventEmitter {
      * @returns {Promise<Array<GiveawayData>>}
      */
     async getAllGiveaways(): Promise<GiveawayData[]> {
-        const storageExists = await access(this.options.storage).then(() => true).catch(() => false);
+        return this.storage.getAllGiveaways();
+    }
 
-        if (!storageExists) {
-            await writeFile(this.options.storage, "[]", "utf-8");
-            return [];
-        } else {
-            const storageContent = await readFile(this.options.storage, { encoding: "utf-8" });
+    /**
+     * Gets the rules referenced by a giveaway data which are not registered on the manager
+     * @param giveaway The giveaway data
+     * @returns {Array<String>}
+     */
+    getMissingRules(giveaway: Pick<GiveawayData, "bonusEntries" | "exemptMembers" | "requirements" | "winnerSelector">): string[] {
+        const missingRules = (giveaway.bonusEntries ?? [])
+            .filter((entry) => !this.bonusRules.has(entry.rule))
+            .map((entry) => `bonus rule "${entry.rule}"`);
 
-            if (!storageContent.trim().startsWith("[") || !storageContent.trim().endsWith("]")) {
-                console.log(storageContent);
-                throw new SyntaxError("The storage file is not property formatted");
+        if (giveaway.exemptMembers && !this.exemptRules.has(giveaway.exemptMembers.rule)) {
+            missingRules.push(`exempt rule "${giveaway.exemptMembers.rule}"`);
+        }
+
+        if (giveaway.requirements?.rule && !this.requirementRules.has(giveaway.requirements.rule.rule)) {
+            missingRules.push(`requirement rule "${giveaway.requirements.rule.rule}"`);
+        }
+
+        if (giveaway.winnerSelector && !this.winnerSelectors.has(giveaway.winnerSelector)) {
+            missingRules.push(`winner selector "${giveaway.winnerSelector}"`);
+        }
+
+        return missingRules;
+    }
+
+    /**
+     * Gets the scheduled giveaways which have not started yet, from the first to start
+     * @param guildID Only the scheduled giveaways of this guild are returned
+     * @returns {Array<ScheduledGiveaway>}
+     */
+    getScheduledGiveaways(guildID?: string): ScheduledGiveaway[] {
+        return this.scheduler.list(guildID);
+    }
+
+    /**
+     * Imports the giveaways of a JSON export into a guild. Giveaways whose message still exists are re-attached to it,
+     * active giveaways whose message is gone are re-posted and ended ones are archived
+     * @param guildID The ID of the guild
+     * @param guildExport The JSON export, as returned by `GiveawaysManager#exportGuild()`
+     * @param options The import options
+     * @returns {Promise<Array<Giveaway>>} The imported giveaways which are managed
+     */
+    async importGuild(guildID: string, guildExport: string | GiveawayExport, options: GiveawayImportOptions = {}): Promise<Giveaway[]> {
+        if (!this.ready) throw new Error("The manager is not ready");
+
+        options = merge(GiveawayImportOptions, options);
+
+        const { giveaways } = typeof guildExport === "string" ? JSON.parse(guildExport) as GiveawayExport : guildExport;
+
+        if (!Array.isArray(giveaways)) throw new Error("The export has no `giveaways` array");
+
+        // Every record is validated first, so an invalid export imports nothing
+        const records = giveaways.map((giveaway, i) => {
+            const problems = Util.validateGiveawayData(giveaway);
+
+            if (problems.length) throw new Error(`Giveaway #${i} of the export is invalid: ${problems.join(", ")}`);
+
+            const { entryCount, archivedAt, ...data } = this.migrateGiveaway(giveaway) as GiveawayExportData;
+            const missingRules = this.getMissingRules(data);
+
+            if (missingRules.length) throw new Error(`Giveaway #${i} of the export references unregistered ${missingRules.join(", ")}`);
+
+            const channelID = options.channelIDs[data.channelID] ?? data.channelID;
+
+            if ((this.client.getChannel(channelID) as GuildTextableChannel)?.guild?.id !== guildID) {
+                throw new Error(`Channel ID: ${channelID} of giveaway #${i} is not a text channel of Guild ID: ${guildID}`);
             }
 
-            try {
-                return await JSON.parse(storageContent, (_, v) =>
-                    typeof v === "string" && /BigInt\("(-?\d+)"\)/.test(v) ? eval(v) : v
-                );
-            } catch (err) {
-                if (err.message.startsWith("Unexpected token")) {
-                    throw new SyntaxError(
-                        /* eslint-disable-next-line */
-                        `${err.message} | LINK: (${require("path").resolve(this.options.storage)}:1:${err.message
-                            .split(" ")
-                            .at(-1)})`
-                    );
+            return { ...data, guildID, channelID };
+        });
+
+        const importedGiveaways: Giveaway[] = [];
+
+        for (const data of records) {
+            if (this.giveaways.some((g) => g.messageID === data.messageID)) continue;
+
+            const channel = this.client.getChannel(data.channelID) as GuildTextableChannel;
+            const giveaway = new Giveaway(this, data);
+
+            giveaway.message = await channel.getMessage(data.messageID).catch((): null => null);
+
+            if (!giveaway.message) {
+                if (giveaway.ended) {
+                    if (this.options.archive.enabled) await this.archive.add(giveaway.data);
+                    continue;
                 }
 
-                throw err;
+                if (!options.repost) continue;
+
+                await this._postGiveaway(channel, giveaway);
             }
+
+            this.giveaways.push(giveaway);
+            await this.saveGiveaway(giveaway.messageID, giveaway.data);
+            importedGiveaways.push(giveaway);
         }
+
+        this.emit("giveawaysImported", guildID, importedGiveaways);
+
+        return importedGiveaways;
+    }
+
+    /**
+     * Upgrades a giveaway data to the current schema versions by running every built-in migration, then every registered migration,
+     * it has not gone through. The giveaway data is returned as it is if it is up to date
+     * @param giveaway The giveaway data
+     * @returns {GiveawayData}
+     */
+    migrateGiveaway(giveaway: GiveawayData): GiveawayData {
+        const version = giveaway.schemaVersion ?? 0;
+        const userVersion = giveaway.userSchemaVersion ?? 0;
+
+        if (version > this.schemaVersion) {
+            throw new Error(`Giveaway Message ID: ${giveaway.messageID} has schema version ${version}, which is newer than the supported version ${this.schemaVersion}`);
+        }
+
+        if (userVersion > this.userSchemaVersion) {
+            throw new Error(`Giveaway Message ID: ${giveaway.messageID} has user schema version ${userVersion}, which is newer than the registered version ${this.userSchemaVersion}`);
+        }
+
+        for (const migration of this.migrations) {
+            if (migration.version <= version) continue;
+
+            giveaway = { ...migration.migrate(giveaway), schemaVersion: migration.version };
+        }
+
+        for (const migration of this.userMigrations) {
+            if (migration.version <= userVersion) continue;
+
+            giveaway = { ...migration.migrate(giveaway), userSchemaVersion: migration.version };
+        }
+
+        return giveaway;
+    }
+
+    /**
+     * Whether this process drives the giveaways of a guild, that is whether it hosts the shard of the guild
+     * @param guildID The ID of the guild
+     * @returns {Boolean}
+     */
+    ownsGuild(guildID: string): boolean {
+        // `maxShards` is still "auto" until the client has connected
+        const shardCount = (this.options.sharding.shardCount ?? this.client.options.maxShards) as number;
+
+        if (!Number.isInteger(shardCount) || shardCount <= 1) return true;
+
+        const shardID = Util.getShardID(guildID, shardCount);
+
+        if (Array.isArray(this.options.sharding.shardIDs)) return this.options.sharding.shardIDs.includes(shardID);
+
+        return shardID >= (this.client.options.firstShardID ?? 0) && shardID <= (this.client.options.lastShardID ?? shardCount - 1);
     }
 
     /**
@@ -491,6 +1456,94 @@ export class GiveawaysManager extends EventEmitter {
         });
     }
 
+    /**
+     * Registers a named bonus rule. Giveaways reference it in their `bonusEntries` by name, with optional JSON parameters
+     * @param name The name of the rule
+     * @param rule The function returning the bonus entries of a member
+     * @returns {GiveawaysManager}
+     */
+    registerBonusRule(name: string, rule: BonusRule): this {
+        Util.verifyString(name, Error, "`name` is not a non-empty string", false);
+
+        if (typeof rule !== "function") throw new Error("`rule` is not a function");
+
+        this.bonusRules.set(name, rule);
+
+        return this;
+    }
+
+    /**
+     * Registers a named exempt rule. Giveaways reference it in their `exemptMembers` by name, with optional JSON parameters
+     * @param name The name of the rule
+     * @param rule The function returning whether a member is exempted from winning
+     * @returns {GiveawaysManager}
+     */
+    registerExemptRule(name: string, rule: ExemptRule): this {
+        Util.verifyString(name, Error, "`name` is not a non-empty string", false);
+
+        if (typeof rule !== "function") throw new Error("`rule` is not a function");
+
+        this.exemptRules.set(name, rule);
+
+        return this;
+    }
+
+    /**
+     * Registers a migration upgrading the giveaway data to a new user schema version. Migrations run when the manager initializes,
+     * after the built-in ones. Their versions are counted apart from the built-in versions, stored in `userSchemaVersion`
+     * @param version The user schema version the migration upgrades to
+     * @param migrate The function returning the upgraded giveaway data
+     * @returns {GiveawaysManager}
+     */
+    registerMigration(version: number, migrate: (giveaway: GiveawayData) => GiveawayData): this {
+        if (!Number.isInteger(version) || version < 1) throw new Error("`version` is not a positive integer");
+        if (typeof migrate !== "function") throw new Error("`migrate` is not a function");
+
+        if (this.userMigrations.some((migration) => migration.version === version)) {
+            throw new Error(`A migration to user schema version ${version} is already registered`);
+        }
+
+        this.userMigrations.push({ version, migrate });
+        this.userMigrations.sort((a, b) => a.version - b.version);
+
+        return this;
+    }
+
+    /**
+     * Registers a named requirement rule. Giveaways reference it in their `requirements` by name, with optional JSON parameters.
+     * The rule returns `true` when the member can enter, otherwise `false` or the reason why they cannot
+     * @param name The name of the rule
+     * @param rule The function checking whether a member can enter
+     * @returns {GiveawaysManager}
+     */
+    registerRequirementRule(name: string, rule: RequirementRule): this {
+        Util.verifyString(name, Error, "`name` is not a non-empty string", false);
+
+        if (typeof rule !== "function") throw new Error("`rule` is not a function");
+
+        this.requirementRules.set(name, rule);
+
+        return this;
+    }
+
+    /**
+     * Registers a named winner selector. Giveaways reference it in their `winnerSelector` by name.
+     * A function is wrapped in a `CallbackSelector`
+     * @param name The name of the selector
+     * @param selector The selector, or the function ordering the candidates by who wins first
+     * @returns {GiveawaysManager}
+     */
+    registerWinnerSelector(name: string, selector: WinnerSelector | WinnerSelectorCallback): this {
+        Util.verifyString(name, Error, "`name` is not a non-empty string", false);
+
+        if (typeof selector === "function") selector = new CallbackSelector(selector);
+        if (typeof selector?.select !== "function") throw new Error("`selector` is neither a function nor a winner selector");
+
+        this.winnerSelectors.set(name, selector);
+
+        return this;
+    }
+
     /**
      * Rerolls a giveaway
      * @param messageID The ID of the giveawya message
@@ -504,14 +1557,14 @@ export class GiveawaysManager extends EventEmitter {
 
             if (!giveaway) return reject(`No Giveaway found with message ID ${messageID}`);
 
-            if (options.interactionOptions.enabled) {
+            if (options.interactionOptions?.enabled) {
                 giveaway.reroll(options, interaction).then((winners) => {
-                    this.emit("giveawayRerolled", giveaway, winners);
+                    this.emit("giveawayRerolled", giveaway, winners, winners.length ? giveaway.history.at(-1) : null);
                     resolve(winners);
-                });
+                }).catch(reject);
             } else {
                 giveaway.reroll(options).then((winners) => {
-                    this.emit("giveawayRerolled", giveaway, winners);
+                    this.emit("giveawayRerolled", giveaway, winners, winners.length ? giveaway.history.at(-1) : null);
                     resolve(winners);
                 }).catch(reject);
             }
@@ -526,15 +1579,46 @@ export class GiveawaysManager extends EventEmitter {
      * @returns {Promise<any>}
      */
     async saveGiveaway(messageID: string, giveawayData: GiveawayData): Promise<any> {
-        await writeFile(
-            this.options.storage,
-            JSON.stringify(
-                this.giveaways.map((giveaway) => giveaway.data),
-                (_, v) => (typeof v === "bigint" ? serialize(v) : v)
-            ),
-            "utf-8"
-        );
-        return;
+        this.winnerHistory.add(giveawayData);
+        this.dirtyGiveaways.delete(messageID);
+
+        return this.storage.saveGiveaway(messageID, giveawayData);
+    }
+
+    /**
+     * Schedules a giveaway to start in the future. It is posted at `startAt` the same way `start` does, even after a restart
+     * @param channel The channel of the giveaway
+     * @param options The start options of the giveaway
+     * @param startAt The timestamp at which the giveaway starts
+     * @returns {Promise<ScheduledGiveaway>}
+     */
+    schedule(channel: GuildTextableChannel, options: GiveawayStartOptions, startAt: number): Promise<ScheduledGiveaway> {
+        return new Promise(async (resolve, reject) => {
+            if (!this.ready) return reject("The manager is not ready");
+            if (!channel?.id) return reject("Channel is not a valid text channel");
+            if (!Number.isFinite(startAt) || startAt <= Date.now()) return reject("`startAt` is not a timestamp in the future");
+
+            const invalidOption = this._checkStartOptions(options);
+
+            if (invalidOption) return reject(invalidOption);
+
+            try {
+                const scheduledGiveaway = await this.scheduler.add({
+                    id: randomBytes(8).toString("hex"),
+                    guildID: channel.guild.id,
+                    channelID: channel.id,
+                    startAt,
+                    scheduledAt: Date.now(),
+                    // The options are persisted until the giveaway starts
+                    options: { ...this._hashTextDropAnswers(options), hostedBy: options.hostedBy ? options.hostedBy.toString() : undefined }
+                });
+
+                this.emit("giveawayScheduled", scheduledGiveaway);
+                resolve(scheduledGiveaway);
+            } catch (err) {
+                reject(err);
+            }
+        });
     }
 
     /**
@@ -547,10 +1631,13 @@ export class GiveawaysManager extends EventEmitter {
         return new Promise(async (resolve, reject) => {
             if (!this.ready) return reject("The manager is not ready");
             if (!channel?.id) return reject("Channel is not a valid text channel");
-            if (typeof options.prize !== "string" || (options.prize = options.prize.trim()).length > 256) return reject("`options.prize` is not a string or longer than 256 characters");
-            if (!Number.isInteger(options.winnerCount) || options.winnerCount < 1) return reject("`options.winnerCount` is not a positive integer");
-            if (options.isDrop && typeof options.isDrop !== "boolean") return reject("`options.isDrop` is not a boolean");
-            if (!options.isDrop && (!Number.isFinite(options.duration) || options.duration < 1)) return reject("`options.duration` is not a positive number");
+
+            const invalidOption = this._checkStartOptions(options);
+
+            if (invalidOption) return reject(invalidOption);
+
+            // The seed stays secret until the giveaway ends, only its hash is published
+            const seed = options.verifiable ? randomBytes(32).toString("hex") : null;
 
             const giveaway = new Giveaway(this, {
                 startAt: Date.now(),
@@ -559,19 +1646,28 @@ export class GiveawaysManager extends EventEmitter {
                 channelID: channel.id,
                 guildID: channel.guild.id,
                 prize: options.prize,
+                prizes: options.prizes?.map((tier) => ({ name: tier.name.trim(), count: tier.count })),
+                backupWinnerCount: options.backupWinnerCount || undefined,
+                showBackupWinners: options.showBackupWinners || undefined,
                 hostedBy: options.hostedBy ? options.hostedBy.toString() : undefined,
-                messages:
-                    options.messages && typeof options.messages === "object"
-                        ? merge(GiveawayMessages, options.messages)
-                        : GiveawayMessages,
+                messages: merge.all([
+                    GiveawayMessages,
+                    options.entryMode === "button"
+                        ? ButtonGiveawayMessages
+                        : options.entryMode === "text"
+                            ? typeof options.textDrop.keyword === "string" ? KeywordGiveawayMessages : QuestionGiveawayMessages
+                            : {},
+                    options.messages && typeof options.messages === "object" ? options.messages : {}
+                ]),
                 thumbnail: typeof options.thumbnail === "string" ? options.thumbnail : undefined,
                 image: typeof options.image === "string" ? options.image : undefined,
                 reaction: Util.resolvePartialEmoji(options.reaction) ? options.reaction : undefined,
                 botsCanWin: typeof options.botsCanWin === "boolean" ? options.botsCanWin : undefined,
                 exemptPermissions: Array.isArray(options.exemptPermissions) ? options.exemptPermissions : undefined,
+                exemptMembers: typeof options.exemptMembers?.rule === "string" ? options.exemptMembers : undefined,
                 bonusEntries:
                     Array.isArray(options.bonusEntries) && !options.isDrop
-                        ? (options.bonusEntries.filter((elem) => typeof elem === "object") as any) : undefined,
+                        ? options.bonusEntries.filter((elem) => typeof elem?.rule === "string") : undefined,
                 embedColor: typeof options.embedColor === "number" ? options.embedColor : undefined,
                 embedColorEnd: typeof options.embedColor === "number" ? options.embedColorEnd : undefined,
                 lastChance:
@@ -582,16 +1678,28 @@ export class GiveawaysManager extends EventEmitter {
                     options.pauseOptions && typeof options.pauseOptions === "object" && !options.isDrop
                         ? options.pauseOptions
                         : undefined,
-                isDrop: options.isDrop
+                isDrop: options.isDrop,
+                requirements: options.requirements && typeof options.requirements === "object" ? options.requirements : undefined,
+                entryMode: options.entryMode === "reaction" ? undefined : options.entryMode,
+                // Only the hashes of the accepted answers are persisted, the embed shows the keyword or the question
+                textDrop: options.entryMode === "text"
+                    ? typeof options.textDrop.keyword === "string"
+                        ? { keyword: options.textDrop.keyword.trim(), caseSensitive: options.textDrop.caseSensitive || undefined }
+                        : {
+                            question: options.textDrop.question,
+                            answerHashes: this._hashTextDropAnswers(options).textDrop.answerHashes,
+                            caseSensitive: options.textDrop.caseSensitive || undefined
+                        }
+                    : undefined,
+                maxParticipants: options.maxParticipants,
+                maxParticipantsMode: options.maxParticipants ? options.maxParticipantsMode : undefined,
+                winnerCooldown: typeof options.winnerCooldown === "object" ? options.winnerCooldown : undefined,
+                winnerSelector: typeof options.winnerSelector === "string" ? options.winnerSelector : undefined,
+                claim: options.claim && typeof options.claim === "object" ? options.claim : undefined,
+                verification: seed ? { commitment: createHash("sha256").update(seed).digest("hex"), seed } : undefined
             });
 
-            const embed = this.generateMainEmbed(giveaway);
-            const message = await channel.createMessage({
-                content: giveaway.fillInString(giveaway.messages.giveaway),
-                embed: embed
-            });
-            giveaway.messageID = message.id;
-            await message.addReaction(options.reaction);
+            await this._postGiveaway(channel, giveaway);
 
             this.emit("giveawayStarted", giveaway, channel);
             this.giveaways.push(giveaway);
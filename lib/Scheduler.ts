@@ -0,0 +1,220 @@
+import { GuildTextableChannel } from "eris";
+import { ScheduledGiveaway } from "./Constants";
+import { GiveawaysManager } from "./Manager";
+
+/**
+ * Represents the scheduler of the giveaways which start in the future. Pending giveaways have no message until they start.
+ * They are persisted through the storage of the giveaways, or kept in memory if the storage does not support it
+ */
+export class GiveawayScheduler {
+    /**
+     * The pending scheduled giveaways
+     * @type {Array<ScheduledGiveaway>}
+     * @ignore
+     */
+    private entries: ScheduledGiveaway[];
+
+    /**
+     * The number of failed start attempts of the scheduled giveaways, keyed by scheduled giveaway ID
+     * @type {Map<String, Number>}
+     * @ignore
+     */
+    private failedAttempts: Map<string, number>;
+
+    /**
+     * The main giveaways manager
+     * @type {GiveawaysManager}
+     */
+    manager: GiveawaysManager;
+
+    /**
+     * The IDs of the scheduled giveaways being started
+     * @type {Set<String>}
+     * @ignore
+     */
+    private starting: Set<string>;
+
+    /**
+     * The timeouts starting the scheduled giveaways which are due soon, keyed by scheduled giveaway ID
+     * @type {Map<String, NodeJS.Timeout>}
+     * @ignore
+     */
+    private timeouts: Map<string, NodeJS.Timeout>;
+
+    /**
+     * Represents the scheduler of the giveaways
+     * @param manager The giveaways manager
+     */
+    constructor(manager: GiveawaysManager) {
+        this.entries = [];
+        this.failedAttempts = new Map();
+        this.manager = manager;
+        this.starting = new Set();
+        this.timeouts = new Map();
+    }
+
+    /**
+     * Whether the scheduled giveaways can be persisted by the storage of the giveaways
+     * @type {Boolean}
+     */
+    get persisted(): boolean {
+        return typeof this.manager.storage.getScheduledGiveaways === "function" && typeof this.manager.storage.editScheduledGiveaways === "function";
+    }
+
+    /**
+     * Persists the scheduled giveaways
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _save(): Promise<void> {
+        if (this.persisted) await this.manager.storage.editScheduledGiveaways(this.entries);
+    }
+
+    /**
+     * Starts a scheduled giveaway through the manager. It leaves the schedule once started, a giveaway which fails to start
+     * is tried again at the next check of the manager, until it has failed `scheduleStartAttempts` times
+     * @param id The ID of the scheduled giveaway
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _start(id: string): Promise<void> {
+        this.timeouts.delete(id);
+
+        const scheduledGiveaway = this.get(id);
+
+        // Cancelled since its timeout was set, or kept for the next start of a destroyed manager
+        if (!scheduledGiveaway || !this.manager.ready || this.starting.has(id)) return;
+
+        this.starting.add(id);
+
+        const error = await this.manager
+            .start(this.manager.client.getChannel(scheduledGiveaway.channelID) as GuildTextableChannel, scheduledGiveaway.options)
+            .then(() => null)
+            .catch((err) => err ?? "Unknown error");
+
+        this.starting.delete(id);
+
+        if (error !== null) {
+            const failedAttempts = (this.failedAttempts.get(id) ?? 0) + 1;
+
+            if (failedAttempts < this.manager.options.scheduleStartAttempts) {
+                this.failedAttempts.set(id, failedAttempts);
+                process.emitWarning(`Scheduled giveaway ${id} could not be started, it will be tried again: ${error}`, "GiveawaySchedulerWarning");
+                return;
+            }
+        }
+
+        // A giveaway which keeps failing to start, for instance because its channel was deleted, is dropped instead of being tried forever
+        this.failedAttempts.delete(id);
+        this.entries = this.entries.filter((entry) => entry.id !== id);
+        await this._save();
+
+        if (error !== null) this.manager.emit("giveawayScheduleFailed", scheduledGiveaway, error);
+    }
+
+    /**
+     * Adds a giveaway to the schedule
+     * @param scheduledGiveaway The scheduled giveaway
+     * @returns {Promise<ScheduledGiveaway>}
+     */
+    async add(scheduledGiveaway: ScheduledGiveaway): Promise<ScheduledGiveaway> {
+        this.entries.push(scheduledGiveaway);
+        await this._save();
+
+        this.ensureStartTimeouts();
+        return scheduledGiveaway;
+    }
+
+    /**
+     * Clears the timeouts starting the scheduled giveaways, which stay scheduled
+     * @returns {void}
+     */
+    clearStartTimeouts(): void {
+        for (const timeout of this.timeouts.values()) clearTimeout(timeout);
+        this.timeouts.clear();
+    }
+
+    /**
+     * Sets the timeouts starting the scheduled giveaways due before the next check of the manager.
+     * The giveaways which were due while the process was down start right away
+     * @returns {void}
+     */
+    ensureStartTimeouts(): void {
+        for (const scheduledGiveaway of this.entries) {
+            if (this.timeouts.has(scheduledGiveaway.id) || this.starting.has(scheduledGiveaway.id) || !this.manager.ownsGuild(scheduledGiveaway.guildID)) continue;
+
+            const remainingTime = scheduledGiveaway.startAt - Date.now();
+
+            if (remainingTime > (this.manager.options.forceUpdateEvery || 15_000)) continue;
+
+            this.timeouts.set(scheduledGiveaway.id, setTimeout(() => this._start(scheduledGiveaway.id).catch(() => { }), Math.max(0, remainingTime)));
+        }
+    }
+
+    /**
+     * Gets a scheduled giveaway
+     * @param id The ID of the scheduled giveaway
+     * @returns {?ScheduledGiveaway}
+     */
+    get(id: string): ScheduledGiveaway | null {
+        return this.entries.find((entry) => entry.id === id) ?? null;
+    }
+
+    /**
+     * Lists the scheduled giveaways, from the first to start
+     * @param guildID Only the scheduled giveaways of this guild are listed
+     * @returns {Array<ScheduledGiveaway>}
+     */
+    list(guildID?: string): ScheduledGiveaway[] {
+        return this.entries.filter((entry) => !guildID || entry.guildID === guildID).sort((a, b) => a.startAt - b.startAt);
+    }
+
+    /**
+     * Loads the scheduled giveaways from the storage
+     * @returns {Promise<void>}
+     */
+    async load(): Promise<void> {
+        if (!this.persisted) {
+            process.emitWarning("The storage does not support scheduled giveaways, which are kept in memory only", "GiveawaySchedulerWarning");
+            return;
+        }
+
+        this.entries = await this.manager.storage.getScheduledGiveaways();
+    }
+
+    /**
+     * Removes a giveaway from the schedule
+     * @param id The ID of the scheduled giveaway
+     * @returns {Promise<?ScheduledGiveaway>} The removed scheduled giveaway
+     */
+    async remove(id: string): Promise<ScheduledGiveaway | null> {
+        const scheduledGiveaway = this.get(id);
+
+        if (!scheduledGiveaway) return null;
+
+        clearTimeout(this.timeouts.get(id));
+        this.timeouts.delete(id);
+        this.failedAttempts.delete(id);
+        this.entries = this.entries.filter((entry) => entry !== scheduledGiveaway);
+        await this._save();
+
+        return scheduledGiveaway;
+    }
+
+    /**
+     * Replaces a scheduled giveaway with its edited version, which keeps its ID
+     * @param scheduledGiveaway The edited scheduled giveaway
+     * @returns {Promise<ScheduledGiveaway>}
+     */
+    async update(scheduledGiveaway: ScheduledGiveaway): Promise<ScheduledGiveaway> {
+        clearTimeout(this.timeouts.get(scheduledGiveaway.id));
+        this.timeouts.delete(scheduledGiveaway.id);
+        // An edited giveaway gets all its start attempts again
+        this.failedAttempts.delete(scheduledGiveaway.id);
+        this.entries = this.entries.map((entry) => entry.id === scheduledGiveaway.id ? scheduledGiveaway : entry);
+        await this._save();
+
+        this.ensureStartTimeouts();
+        return scheduledGiveaway;
+    }
+}
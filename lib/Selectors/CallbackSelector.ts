@@ -0,0 +1,34 @@
+import { WinnerCandidate, WinnerSelector, WinnerSelectorCallback } from "../Constants";
+import { Giveaway } from "../Giveaway";
+
+/**
+ * Represents a winner selector which delegates the selection to a callback
+ */
+export class CallbackSelector implements WinnerSelector {
+    /**
+     * The callback selecting the winners
+     * @type {WinnerSelectorCallback}
+     */
+    callback: WinnerSelectorCallback;
+
+    /**
+     * Represents a winner selector which delegates the selection to a callback
+     * @param callback The callback selecting the winners
+     */
+    constructor(callback: WinnerSelectorCallback) {
+        if (typeof callback !== "function") throw new Error("`callback` is not a function");
+
+        this.callback = callback;
+    }
+
+    /**
+     * Orders the candidates with the callback
+     * @param candidates The candidates, in order of entry
+     * @param winnerCount The number of winners to draw
+     * @param giveaway The giveaway
+     * @returns {Promise<Array<String>>}
+     */
+    async select(candidates: WinnerCandidate[], winnerCount: number, giveaway: Giveaway): Promise<string[]> {
+        return this.callback(candidates, winnerCount, giveaway);
+    }
+}
@@ -0,0 +1,15 @@
+import { WinnerCandidate, WinnerSelector } from "../Constants";
+
+/**
+ * Represents a winner selector which picks the candidates who entered first. Tickets are ignored
+ */
+export class FirstEntrantsSelector implements WinnerSelector {
+    /**
+     * Orders the candidates from the first to enter
+     * @param candidates The candidates, in order of entry
+     * @returns {Array<String>}
+     */
+    select(candidates: WinnerCandidate[]): string[] {
+        return candidates.map((candidate) => candidate.user.id);
+    }
+}
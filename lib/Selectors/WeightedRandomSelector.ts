@@ -0,0 +1,19 @@
+import { WinnerCandidate, WinnerSelector } from "../Constants";
+
+/**
+ * Represents the default winner selector, which draws the candidates at random in proportion to their tickets.
+ * Each candidate gets a random key weighted by their tickets, so no ticket has to be duplicated
+ */
+export class WeightedRandomSelector implements WinnerSelector {
+    /**
+     * Orders the candidates by a random key, higher for the candidates holding more tickets
+     * @param candidates The candidates
+     * @returns {Array<String>}
+     */
+    select(candidates: WinnerCandidate[]): string[] {
+        return candidates
+            .map((candidate) => ({ id: candidate.user.id, key: Math.random() ** (1 / Math.max(1, candidate.tickets)) }))
+            .sort((a, b) => b.key - a.key)
+            .map((candidate) => candidate.id);
+    }
+}
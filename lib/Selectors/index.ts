@@ -0,0 +1,4 @@
+export * from "./CallbackSelector";
+export * from "./FirstEntrantsSelector";
+export * from "./LastEntrantsSelector";
+export * from "./WeightedRandomSelector";
@@ -0,0 +1,384 @@
+import { BlacklistEntry, GiveawayData, GiveawayStorage, JSONStorageOptions, ScheduledGiveaway } from "../Constants";
+import { access, copyFile, open, readFile, rename } from "fs/promises";
+import { resolve } from "path";
+import merge from "deepmerge";
+import serialize from "serialize-javascript";
+
+/**
+ * Represents the default storage which keeps every giveaway in a JSON file.
+ * Writes go to a temporary file which is then renamed over the storage file, so a crash never leaves a truncated file behind
+ */
+export class JSONStorage implements GiveawayStorage {
+    /**
+     * The loading of the storage file into the cache
+     * @type {?Promise<Map<String, GiveawayData>>}
+     * @ignore
+     */
+    private loading: Promise<Map<string, GiveawayData>> | null;
+
+    /**
+     * The JSON storage options
+     * @type {JSONStorageOptions}
+     */
+    options: JSONStorageOptions;
+
+    /**
+     * The path of the storage file
+     * @type {String}
+     */
+    path: string;
+
+    /**
+     * The pending write which has not started yet. Writes requested meanwhile are merged into it
+     * @type {?Promise<void>}
+     * @ignore
+     */
+    private pendingWrite: Promise<void> | null;
+
+    /**
+     * The cached giveaways of the storage file, keyed by message ID
+     * @type {?Map<String, GiveawayData>}
+     * @ignore
+     */
+    private records: Map<string, GiveawayData> | null;
+
+    /**
+     * The queue of writes, ensuring two writes never interleave
+     * @type {Promise<void>}
+     * @ignore
+     */
+    private writeQueue: Promise<void>;
+
+    /**
+     * Represents the default storage which keeps every giveaway in a JSON file
+     * @param path The path of the storage file
+     * @param options The JSON storage options
+     */
+    constructor(path: string, options: JSONStorageOptions = {}) {
+        this.options = merge(JSONStorageOptions, options);
+        this.loading = null;
+        this.path = path;
+        this.pendingWrite = null;
+        this.records = null;
+        this.writeQueue = Promise.resolve();
+    }
+
+    /**
+     * The paths of the backup files, from the most recent to the oldest
+     * @type {Array<String>}
+     */
+    get backupPaths(): string[] {
+        return this._backupPathsOf(this.path);
+    }
+
+    /**
+     * The path of the blacklist file, next to the storage file unless set in the options
+     * @type {String}
+     */
+    get blacklistPath(): string {
+        return this.options.blacklistPath ?? this.path.replace(/(\.json)?$/, ".blacklist.json");
+    }
+
+    /**
+     * The path of the scheduled giveaways file, next to the storage file unless set in the options
+     * @type {String}
+     */
+    get schedulePath(): string {
+        return this.options.schedulePath ?? this.path.replace(/(\.json)?$/, ".scheduled.json");
+    }
+
+    /**
+     * Gets the paths of the backup files of a file, from the most recent to the oldest
+     * @param path The path of the file
+     * @returns {Array<String>}
+     * @ignore
+     */
+    private _backupPathsOf(path: string): string[] {
+        return Array.from({ length: Math.max(0, this.options.backups) }, (_, i) => `${path}.bak.${i + 1}`);
+    }
+
+    /**
+     * Loads the storage file into the cache if it has not been loaded yet
+     * @returns {Promise<Map<String, GiveawayData>>}
+     * @ignore
+     */
+    private _load(): Promise<Map<string, GiveawayData>> {
+        this.loading ??= this._loadFile().catch((err) => {
+            this.loading = null;
+            throw err;
+        });
+
+        return this.loading;
+    }
+
+    /**
+     * Reads the storage file into the cache.
+     * Falls back to the most recent readable backup when the storage file is corrupted
+     * @returns {Promise<Map<String, GiveawayData>>}
+     * @ignore
+     */
+    private async _loadFile(): Promise<Map<string, GiveawayData>> {
+        const storageExists = await access(this.path).then(() => true).catch(() => false);
+
+        if (!storageExists) {
+            this.records = new Map();
+            await this._write();
+            return this.records;
+        }
+
+        const giveaways = await this._readOrRestore<GiveawayData>(this.path);
+
+        this.records = new Map(giveaways.map((giveaway) => [giveaway.messageID, giveaway]));
+
+        return this.records;
+    }
+
+    /**
+     * Reads and parses a storage file
+     * @param path The path of the file to read
+     * @returns {Promise<Array<any>>}
+     * @ignore
+     */
+    private async _read<T>(path: string): Promise<T[]> {
+        const storageContent = await readFile(path, { encoding: "utf-8" });
+
+        if (!storageContent.trim().startsWith("[") || !storageContent.trim().endsWith("]")) {
+            throw new SyntaxError(`The storage file is not property formatted | LINK: (${resolve(path)})`);
+        }
+
+        try {
+            return JSON.parse(storageContent, (_, v) =>
+                typeof v === "string" && /^BigInt\("(-?\d+)"\)$/.test(v) ? BigInt(v.slice(8, -2)) : v
+            );
+        } catch (err) {
+            if (err.message.startsWith("Unexpected token")) {
+                throw new SyntaxError(`${err.message} | LINK: (${resolve(path)}:1:${err.message.split(" ").at(-1)})`);
+            }
+
+            throw err;
+        }
+    }
+
+    /**
+     * Reads and parses a storage file, falling back to its most recent readable backup when it is corrupted.
+     * The corrupted file is then moved aside and replaced by the backup
+     * @param path The path of the file to read
+     * @returns {Promise<Array<any>>}
+     * @ignore
+     */
+    private async _readOrRestore<T>(path: string): Promise<T[]> {
+        try {
+            return await this._read<T>(path);
+        } catch (err) {
+            for (const backupPath of this._backupPathsOf(path)) {
+                const records = await this._read<T>(backupPath).catch((): null => null);
+
+                if (!records) continue;
+
+                const corruptedPath = `${path}.corrupted-${Date.now()}`;
+
+                await rename(path, corruptedPath).catch(() => { });
+                await copyFile(backupPath, path).catch(() => { });
+                process.emitWarning(
+                    `${err.message}. The storage file was moved to ${resolve(corruptedPath)} and restored from ${resolve(backupPath)}`,
+                    "GiveawayStorageWarning"
+                );
+
+                return records;
+            }
+
+            throw err;
+        }
+    }
+
+    /**
+     * Atomically replaces a file: the content goes to a temporary file which is then renamed over it
+     * @param path The path of the file
+     * @param content The new content of the file
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _replaceFile(path: string, content: string): Promise<void> {
+        const tempPath = `${path}.tmp`;
+        const file = await open(tempPath, "w");
+
+        try {
+            await file.writeFile(content, "utf-8");
+            await file.sync();
+        } finally {
+            await file.close();
+        }
+
+        await rename(tempPath, path);
+    }
+
+    /**
+     * Rotates the backups of a file, the current file becoming the most recent backup
+     * @param path The path of the file
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _rotateBackups(path: string): Promise<void> {
+        const backupPaths = this._backupPathsOf(path);
+
+        if (!backupPaths.length || !await access(path).then(() => true).catch(() => false)) return;
+
+        for (let i = backupPaths.length - 1; i > 0; i--) {
+            await rename(backupPaths[i - 1], backupPaths[i]).catch(() => { });
+        }
+
+        await copyFile(path, backupPaths[0]);
+    }
+
+    /**
+     * Queues a write of the cached giveaways into the storage file
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private _write(): Promise<void> {
+        if (this.pendingWrite) return this.pendingWrite;
+
+        this.pendingWrite = this.writeQueue.then(() => {
+            this.pendingWrite = null;
+            return this._writeFile();
+        });
+        this.writeQueue = this.pendingWrite.catch(() => { });
+
+        return this.pendingWrite;
+    }
+
+    /**
+     * Rotates the backups, then atomically replaces the storage file with the cached giveaways
+     * @returns {Promise<void>}
+     * @ignore
+     */
+    private async _writeFile(): Promise<void> {
+        const content = JSON.stringify(
+            [...this.records.values()],
+            (_, v) => (typeof v === "bigint" ? serialize(v) : v)
+        );
+
+        await this._rotateBackups(this.path);
+        await this._replaceFile(this.path, content);
+    }
+
+    /**
+     * Deletes a giveaway from the storage file
+     * @param messageID The ID of the giveaway message
+     * @returns {Promise<void>}
+     */
+    async deleteGiveaway(messageID: string): Promise<void> {
+        const records = await this._load();
+
+        if (records.delete(messageID)) await this._write();
+    }
+
+    /**
+     * Replaces the blacklist in the blacklist file, which is backed up like the storage file
+     * @param entries The blacklist entries
+     * @returns {Promise<void>}
+     */
+    async editBlacklist(entries: BlacklistEntry[]): Promise<void> {
+        const write = this.writeQueue.then(async () => {
+            await this._rotateBackups(this.blacklistPath);
+            await this._replaceFile(this.blacklistPath, JSON.stringify(entries));
+        });
+
+        this.writeQueue = write.catch(() => { });
+        return write;
+    }
+
+    /**
+     * Edits a giveaway in the storage file
+     * @param messageID The ID of the giveaway message
+     * @param giveawayData The giveaway data
+     * @returns {Promise<void>}
+     */
+    async editGiveaway(messageID: string, giveawayData: GiveawayData): Promise<void> {
+        const records = await this._load();
+
+        records.set(messageID, giveawayData);
+        await this._write();
+    }
+
+    /**
+     * Edits several giveaways in the storage file with a single write
+     * @param giveaways The giveaways data
+     * @returns {Promise<void>}
+     */
+    async editGiveaways(giveaways: GiveawayData[]): Promise<void> {
+        const records = await this._load();
+
+        for (const giveaway of giveaways) records.set(giveaway.messageID, giveaway);
+        await this._write();
+    }
+
+    /**
+     * Replaces the scheduled giveaways in the scheduled giveaways file, which is backed up like the storage file
+     * @param giveaways The scheduled giveaways
+     * @returns {Promise<void>}
+     */
+    async editScheduledGiveaways(giveaways: ScheduledGiveaway[]): Promise<void> {
+        const write = this.writeQueue.then(async () => {
+            await this._rotateBackups(this.schedulePath);
+            await this._replaceFile(this.schedulePath, JSON.stringify(giveaways));
+        });
+
+        this.writeQueue = write.catch(() => { });
+        return write;
+    }
+
+    /**
+     * Gets an array of all giveaways from the storage file
+     * @returns {Promise<Array<GiveawayData>>}
+     */
+    async getAllGiveaways(): Promise<GiveawayData[]> {
+        const records = await this._load();
+
+        return [...records.values()];
+    }
+
+    /**
+     * Gets the blacklist from the blacklist file. Falls back to the most recent readable backup when the file is corrupted
+     * @returns {Promise<Array<BlacklistEntry>>}
+     */
+    async getBlacklist(): Promise<BlacklistEntry[]> {
+        if (!await access(this.blacklistPath).then(() => true).catch(() => false)) return [];
+
+        return this._readOrRestore<BlacklistEntry>(this.blacklistPath);
+    }
+
+    /**
+     * Gets a giveaway from the storage file. The file is cached once loaded, so the writes of other processes are not seen
+     * @param messageID The ID of the giveaway message
+     * @returns {Promise<?GiveawayData>}
+     */
+    async getGiveaway(messageID: string): Promise<GiveawayData | null> {
+        const records = await this._load();
+
+        return records.get(messageID) ?? null;
+    }
+
+    /**
+     * Gets the scheduled giveaways from the scheduled giveaways file. Falls back to the most recent readable backup when the file is corrupted
+     * @returns {Promise<Array<ScheduledGiveaway>>}
+     */
+    async getScheduledGiveaways(): Promise<ScheduledGiveaway[]> {
+        if (!await access(this.schedulePath).then(() => true).catch(() => false)) return [];
+
+        return this._readOrRestore<ScheduledGiveaway>(this.schedulePath);
+    }
+
+    /**
+     * Saves a giveaway in the storage file
+     * @param messageID The ID of the giveaway message
+     * @param giveawayData The giveaway data
+     * @returns {Promise<void>}
+     */
+    async saveGiveaway(messageID: string, giveawayData: GiveawayData): Promise<void> {
+        const records = await this._load();
+
+        records.set(messageID, giveawayData);
+        await this._write();
+    }
+}
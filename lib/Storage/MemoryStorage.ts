@@ -0,0 +1,123 @@
+import { BlacklistEntry, GiveawayData, GiveawayStorage, ScheduledGiveaway } from "../Constants";
+
+/**
+ * Represents a storage which keeps every giveaway in memory. Giveaways are lost once the process exits
+ */
+export class MemoryStorage implements GiveawayStorage {
+    /**
+     * The stored blacklist entries
+     * @type {Array<BlacklistEntry>}
+     */
+    blacklist: BlacklistEntry[];
+
+    /**
+     * The stored giveaways, keyed by message ID
+     * @type {Map<String, GiveawayData>}
+     */
+    records: Map<string, GiveawayData>;
+
+    /**
+     * The stored scheduled giveaways
+     * @type {Array<ScheduledGiveaway>}
+     */
+    scheduled: ScheduledGiveaway[];
+
+    /**
+     * Represents a storage which keeps every giveaway in memory
+     * @param giveaways Optional giveaways to start with
+     */
+    constructor(giveaways: GiveawayData[] = []) {
+        this.blacklist = [];
+        this.records = new Map(giveaways.map((giveaway) => [giveaway.messageID, giveaway]));
+        this.scheduled = [];
+    }
+
+    /**
+     * Deletes a giveaway from memory
+     * @param messageID The ID of the giveaway message
+     * @returns {Promise<void>}
+     */
+    async deleteGiveaway(messageID: string): Promise<void> {
+        this.records.delete(messageID);
+    }
+
+    /**
+     * Replaces the blacklist in memory
+     * @param entries The blacklist entries
+     * @returns {Promise<void>}
+     */
+    async editBlacklist(entries: BlacklistEntry[]): Promise<void> {
+        this.blacklist = [...entries];
+    }
+
+    /**
+     * Edits a giveaway in memory
+     * @param messageID The ID of the giveaway message
+     * @param giveawayData The giveaway data
+     * @returns {Promise<void>}
+     */
+    async editGiveaway(messageID: string, giveawayData: GiveawayData): Promise<void> {
+        this.records.set(messageID, giveawayData);
+    }
+
+    /**
+     * Edits several giveaways in memory
+     * @param giveaways The giveaways data
+     * @returns {Promise<void>}
+     */
+    async editGiveaways(giveaways: GiveawayData[]): Promise<void> {
+        for (const giveaway of giveaways) this.records.set(giveaway.messageID, giveaway);
+    }
+
+    /**
+     * Replaces the scheduled giveaways in memory
+     * @param giveaways The scheduled giveaways
+     * @returns {Promise<void>}
+     */
+    async editScheduledGiveaways(giveaways: ScheduledGiveaway[]): Promise<void> {
+        this.scheduled = [...giveaways];
+    }
+
+    /**
+     * Gets an array of all giveaways from memory
+     * @returns {Promise<Array<GiveawayData>>}
+     */
+    async getAllGiveaways(): Promise<GiveawayData[]> {
+        return [...this.records.values()];
+    }
+
+    /**
+     * Gets the blacklist from memory
+     * @returns {Promise<Array<BlacklistEntry>>}
+     */
+    async getBlacklist(): Promise<BlacklistEntry[]> {
+        return [...this.blacklist];
+    }
+
+    /**
+     * Gets a giveaway from memory
+     * @param messageID The ID of the giveaway message
+     * @returns {Promise<?GiveawayData>}
+     */
+    async getGiveaway(messageID: string): Promise<GiveawayData | null> {
+        return this.records.get(messageID) ?? null;
+    }
+
+    /**
+     * Gets the scheduled giveaways from memory
+     * @returns {Promise<Array<ScheduledGiveaway>>}
+     */
+    async getScheduledGiveaways(): Promise<ScheduledGiveaway[]> {
+        return [...this.scheduled];
+    }
+
+    /**
+     * Saves a giveaway in memory
+     * @param messageID The ID of the giveaway message
+     * @param giveawayData The giveaway data
+     * @returns {Promise<void>}
+     */
+    async saveGiveaway(messageID: string, giveawayData: GiveawayData): Promise<void> {
+        this.records.set(messageID, giveawayData);
+    }
+}
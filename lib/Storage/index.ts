@@ -0,0 +1,2 @@
+export * from "./JSONStorage";
+export * from "./MemoryStorage";
@@ -0,0 +1,96 @@
+"use strict";
+
+const PLACEHOLDER_REGEX = /\{([^{}]+)\}/g;
+const EXPRESSION_REGEX = /^\s*([A-Za-z_$][\w$]*(?:\.[\w$]+)*)\s*(?::\s*(\w+)\s*(?:\(([^()]*)\))?)?\s*$/;
+
+/**
+ * A formatter transforming the value of a placeholder, such as `relative` in `{endAt:relative}`.
+ * Returning `undefined` leaves the placeholder unresolved
+ */
+export type TemplateFormatter = (value: any, ...args: string[]) => string | undefined;
+
+/**
+ * Represents a static class which fills in placeholders without evaluating any code.
+ * Only a fixed set of variables can be read, optionally passed through a formatter: `{prize}`, `{extraData.role}`, `{endAt:relative}`
+ */
+export class Template {
+    /**
+     * The formatters usable in a placeholder
+     * @type {Object<String, TemplateFormatter>}
+     */
+    static FORMATTERS: Record<string, TemplateFormatter> = {
+        date: (value) => Number.isFinite(value) ? `<t:${Math.round(value / 1000)}:f>` : undefined,
+        lower: (value) => String(value).toLowerCase(),
+        plural: (value, singular = "", plural = "") => Number(value) === 1 ? singular : plural,
+        relative: (value) => Number.isFinite(value) ? `<t:${Math.round(value / 1000)}:R>` : undefined,
+        upper: (value) => String(value).toUpperCase()
+    };
+
+    /**
+     * The variables which can be read from a placeholder
+     * @type {Array<String>}
+     */
+    static VARIABLES = ["prize", "winners", "hostedBy", "messageURL", "winnerCount", "endAt", "extraData", "reason", "participantCount", "maxParticipants", "commitment", "seed", "claimDeadline", "tier", "keyword", "question"];
+
+    /**
+     * The placeholders which have already been warned about, to avoid flooding the warnings on every update
+     * @type {Set<String>}
+     * @ignore
+     */
+    private static warnedPlaceholders = new Set<string>();
+
+    /**
+     * Fills in the placeholders of a text. Placeholders of a known variable whose value is not set yet, such as `{winners}`
+     * before the giveaway has ended, are kept as they are
+     * @param text The text to fill in
+     * @param variables The values of the variables
+     * @param legacy Whether `{this.prize}` styled placeholders are supported
+     * @returns {String}
+     */
+    static render(text: string, variables: Record<string, any>, legacy = true): string {
+        return text.replace(PLACEHOLDER_REGEX, (placeholder, rawExpression: string) => {
+            const expression = legacy ? rawExpression.replace(/^\s*this\./, "") : rawExpression;
+            const match = expression.match(EXPRESSION_REGEX);
+
+            // Not an expression at all, such as a literal `{ }` in a message
+            if (!match) return placeholder;
+
+            const [variable, ...keys] = match[1].split(".");
+
+            if (!Template.VARIABLES.includes(variable)) return Template.warn(placeholder, `Unknown variable "${variable}"`);
+
+            let value = variables[variable];
+
+            for (const key of keys) {
+                value = value !== null && typeof value === "object" && Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+            }
+
+            if (value === undefined || value === null) return placeholder;
+            if (!match[2]) return String(value);
+
+            const formatter = Template.FORMATTERS[match[2]];
+
+            if (!formatter) return Template.warn(placeholder, `Unknown formatter "${match[2]}"`);
+
+            const args = match[3]?.split(",").map((arg) => arg.trim()) ?? [];
+
+            return formatter(value, ...args) ?? placeholder;
+        });
+    }
+
+    /**
+     * Emits a warning about a placeholder which cannot be resolved, once per placeholder
+     * @param placeholder The placeholder
+     * @param reason Why the placeholder cannot be resolved
+     * @returns {String}
+     * @ignore
+     */
+    private static warn(placeholder: string, reason: string): string {
+        if (!Template.warnedPlaceholders.has(placeholder)) {
+            Template.warnedPlaceholders.add(placeholder);
+            process.emitWarning(`${reason} in placeholder ${placeholder}`, "GiveawayTemplateWarning");
+        }
+
+        return placeholder;
+    }
+}
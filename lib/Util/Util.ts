@@ -13,6 +13,43 @@ export class Util {
         return Object.assign(Object.create(obj), obj);
     }
 
+    /**
+     * Formats rows into a CSV text, quoting the values when necessary
+     * @param rows The rows, starting with the header
+     * @returns {String}
+     */
+    static formatCSV(rows: any[][]): string {
+        return rows.map((row) => row.map((value) => {
+            const text = value === null || value === undefined ? "" : String(value);
+
+            return /[",\r\n]/.test(text) ? `"${text.replaceAll("\"", "\"\"")}"` : text;
+        }).join(",")).join("\n");
+    }
+
+    /**
+     * Gets the ID of the shard a guild belongs to
+     * @param guildID The ID of the guild
+     * @param shardCount The total number of shards
+     * @returns {Number}
+     */
+    static getShardID(guildID: string, shardCount: number): number {
+        return Number((BigInt(guildID) >> 22n) % BigInt(shardCount));
+    }
+
+    /**
+     * Whether a value should be deeply merged. Only arrays and plain objects are merged,
+     * class instances (such as storage adapters) are kept as they are
+     * @param value The value to check
+     * @returns {Boolean}
+     */
+    static isMergeableObject(value: any): boolean {
+        if (Array.isArray(value)) return true;
+        if (!value || typeof value !== "object") return false;
+
+        const prototype = Object.getPrototypeOf(value);
+        return prototype === Object.prototype || prototype === null;
+    }
+
     /**
      * Parse a emoji from a text
      * @param text The tetx to be parse
@@ -44,6 +81,78 @@ export class Util {
         return { id, name, animated };
     }
 
+    /**
+     * Splits the source of an array or object literal into the sources of its top-level elements, without evaluating it.
+     * Strings, template literals, comments and nested brackets are skipped over
+     * @param source The source of the literal
+     * @returns {?Array<String>} The sources of the elements, `null` if the source is not a well-formed array or object literal
+     */
+    static splitLiteral(source: string): string[] | null {
+        source = source.trim();
+
+        if (!/^(\[[\s\S]*\]|\{[\s\S]*\})$/.test(source)) return null;
+
+        const elements: string[] = [];
+        let depth = 0;
+        let quote: string | null = null;
+        let start = 1;
+
+        for (let i = 1; i < source.length - 1; i++) {
+            const char = source[i];
+
+            if (quote) {
+                if (char === "\\") i++;
+                else if (char === quote) quote = null;
+                continue;
+            }
+
+            if (char === "/" && ["/", "*"].includes(source[i + 1])) {
+                i = source[i + 1] === "/" ? source.indexOf("\n", i) : source.indexOf("*/", i + 2) + 1;
+
+                if (i < 1) return null;
+                continue;
+            }
+
+            if (["\"", "'", "`"].includes(char)) quote = char;
+            else if ("([{".includes(char)) depth++;
+            else if (")]}".includes(char) && --depth < 0) return null;
+            else if (char === "," && !depth) {
+                elements.push(source.slice(start, i).trim());
+                start = i + 1;
+            }
+        }
+
+        if (quote || depth) return null;
+
+        const lastElement = source.slice(start, -1).trim();
+
+        return lastElement ? [...elements, lastElement] : elements;
+    }
+
+    /**
+     * Validates the shape of a giveaway data
+     * @param data The giveaway data to validate
+     * @returns {Array<String>} The problems found, empty if the data is valid
+     */
+    static validateGiveawayData(data: any): string[] {
+        if (!data || typeof data !== "object") return ["is not an object"];
+
+        const problems: string[] = [];
+
+        for (const key of ["messageID", "channelID", "prize"]) {
+            if (typeof data[key] !== "string") problems.push(`\`${key}\` is not a string`);
+        }
+
+        if (!Number.isFinite(data.startAt)) problems.push("`startAt` is not a number");
+        if (data.endAt !== null && typeof data.endAt !== "number") problems.push("`endAt` is not a number");
+        if (!Number.isInteger(data.winnerCount) || data.winnerCount < 1) problems.push("`winnerCount` is not a positive integer");
+        if (!data.messages || typeof data.messages !== "object") problems.push("`messages` is not an object");
+        if (data.winnerIDs !== undefined && !Array.isArray(data.winnerIDs)) problems.push("`winnerIDs` is not an array");
+        if (data.bonusEntries !== undefined && !Array.isArray(data.bonusEntries)) problems.push("`bonusEntries` is not an array");
+
+        return problems;
+    }
+
     /**
      * Verifies the provided data is a string, otherwise throws provided error
      * @param data The string to resolve
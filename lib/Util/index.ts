@@ -1,2 +1,3 @@
 export * from "./RichEmbed";
+export * from "./Template";
 export * from "./Util";
@@ -0,0 +1,84 @@
+import { GiveawayData, GiveawayWin, WinnerCooldownOptions } from "./Constants";
+
+/**
+ * Represents the index of the wins of every guild, built from the winners of the ended giveaways.
+ * It is kept in memory and rebuilt from the storage and the archive when the manager starts
+ */
+export class WinnerHistory {
+    /**
+     * The wins keyed by guild ID, then by giveaway message ID
+     * @type {Map<String, Map<String, Array<GiveawayWin>>>}
+     * @ignore
+     */
+    private guilds: Map<string, Map<string, GiveawayWin[]>>;
+
+    /**
+     * Represents the index of the wins of every guild
+     */
+    constructor() {
+        this.guilds = new Map();
+    }
+
+    /**
+     * Indexes the current winners of an ended giveaway, replacing the ones indexed before a reroll
+     * @param giveaway The giveaway data
+     * @returns {void}
+     */
+    add(giveaway: GiveawayData): void {
+        if (!giveaway.ended || !giveaway.messageID) return;
+
+        if (!this.guilds.has(giveaway.guildID)) this.guilds.set(giveaway.guildID, new Map());
+
+        const history = giveaway.history ?? [];
+
+        this.guilds.get(giveaway.guildID).set(giveaway.messageID, (giveaway.winnerIDs ?? []).map((userID) => ({
+            userID,
+            messageID: giveaway.messageID,
+            // A winner drawn by a reroll won when that reroll happened
+            wonAt: [...history].reverse().find((draw) => draw.winnerIDs.includes(userID))?.drawnAt ?? giveaway.endAt
+        })));
+    }
+
+    /**
+     * Counts the wins of a user in a guild
+     * @param guildID The ID of the guild
+     * @param userID The ID of the user
+     * @param since Only the wins from this timestamp are counted
+     * @param ignoredMessageID The ID of a giveaway message whose wins are not counted
+     * @returns {Number}
+     */
+    countWins(guildID: string, userID: string, since = 0, ignoredMessageID?: string): number {
+        let count = 0;
+
+        for (const [messageID, wins] of this.guilds.get(guildID) ?? []) {
+            if (messageID === ignoredMessageID) continue;
+
+            count += wins.filter((win) => win.userID === userID && win.wonAt >= since).length;
+        }
+
+        return count;
+    }
+
+    /**
+     * Whether a user has won too many giveaways of a guild recently to win again
+     * @param guildID The ID of the guild
+     * @param userID The ID of the user
+     * @param cooldown The winner cooldown
+     * @param ignoredMessageID The ID of a giveaway message whose wins are not counted
+     * @returns {Boolean}
+     */
+    isOnCooldown(guildID: string, userID: string, cooldown: WinnerCooldownOptions, ignoredMessageID?: string): boolean {
+        if (!Number.isFinite(cooldown?.duration)) return false;
+
+        return this.countWins(guildID, userID, Date.now() - cooldown.duration, ignoredMessageID) >= (cooldown.maxWins ?? 1);
+    }
+
+    /**
+     * Removes the wins of a giveaway from the index
+     * @param messageID The ID of the giveaway message
+     * @returns {void}
+     */
+    remove(messageID: string): void {
+        for (const giveaways of this.guilds.values()) giveaways.delete(messageID);
+    }
+}
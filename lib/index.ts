@@ -1,3 +1,10 @@
+export * from "./Archive";
+export * from "./Blacklist";
 export * from "./Giveaway";
+export * from "./Lock";
 export * from "./Manager";
+export * from "./Scheduler";
+export * from "./Selectors";
+export * from "./Storage";
+export * from "./WinnerHistory";
 export const VERSION: string = require("../package.json").version;